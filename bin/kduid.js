@@ -0,0 +1,22 @@
+#!/usr/bin/env node
+/**
+ * @file /bin/kduid.js
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @fileoverview
+ * Entry point of the `kduid` command-line tool. Runs the CLI built into `lib/cjs` by
+ * `npm run build`.
+ */
+
+const { KDUIDCli } = require('../lib/cjs/KDUIDCli');
+
+// errors other than bad usage, eg. a failed stdin read, still exit cleanly
+Promise.resolve()
+  .then(() => KDUIDCli(process.argv.slice(2)))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    process.stderr.write(`kduid: ${error && error.message}\n`);
+    process.exitCode = 2;
+  });
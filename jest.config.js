@@ -0,0 +1,14 @@
+/**
+ * @file jest.config.js
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @fileoverview
+ * Run the specs against the TypeScript sources. The default `jsdom` environment
+ * covers the DOM and React bindings.
+ */
+
+module.exports = {
+  preset: 'ts-jest',
+  roots: ['<rootDir>/spec'],
+  testMatch: ['**/*.spec.ts', '**/*.spec.tsx'],
+};
@@ -0,0 +1,34 @@
+/**
+ * @file rollup.config.js
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @fileoverview
+ * Bundle the ESM build into a UMD file for AMD, CommonJS and non-module scripts.
+ * Run `npm run build:esm` first. Without a module loader, the exports are stored
+ * on `window.kd`.
+ */
+
+import cleanup from 'rollup-plugin-cleanup';
+
+const banner = `/**
+ * @file KDUIDManager.js
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ */`;
+
+export default {
+  input: 'lib/esm/index.js',
+  output: {
+    file: 'lib/umd/KDUIDManager.js',
+    format: 'umd',
+    name: 'kd',
+    extend: true,
+    banner: banner,
+  },
+  plugins: [cleanup({ comments: 'none' })],
+  onwarn: (warning, warn) => {
+    // the helpers emitted by tsc check `this` before using it
+    if (warning.code !== 'THIS_IS_UNDEFINED') warn(warning);
+  },
+};
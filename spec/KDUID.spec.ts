@@ -8,7 +8,10 @@
  * Jest tests for KDUID.ts
  */
 
-import { KDUID } from '../src/module/dev/KDUID';
+import { KDUID, KDUIDNamespaces } from '../src/module/dev/KDUID';
+import { KDUIDEncoding } from '../src/module/dev/KDUIDEncoding';
+import { KDUIDSeededRandom } from '../src/module/dev/KDUIDRandom';
+import { KDUIDStore } from '../src/module/dev/KDUIDStore';
 
 const validUID = 'AA97B177-9383-4934-8543-0F91A7A02836';
 const validHexNumbers = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
@@ -253,10 +256,453 @@ describe('uuid generator', () => {
     uuid.setExisting(uids);
     const preExisting = uuid.getExisting();
     expect(preExisting.length).toBe(1);
-    expect(preExisting[0]).toBe(validUID);
+    expect(preExisting[0]).toBe(validUID.toLowerCase());
 
     uuid.setExisting([...generated]);
     expect(uuid.getExisting().length).toBe(count);
     expect(uuid.getExisting()[count - 1]).toBe(generated[count - 1]);
   });
 });
+
+describe('uuid versions', () => {
+  const versionOf = (uid: string) => uid.split('-')[2][0];
+
+  it(`should generate the configured version`, () => {
+    ([1, 4, 6, 7] as const).forEach((version) => {
+      const uuid = KDUID([], { version: version });
+      const uid = uuid.generate();
+      expect(versionOf(uid)).toBe(`${version}`);
+      expect(uuid.validate(uid)).toEqual([uid]);
+      expect(uuid.validate(uid, 'any')).toEqual([uid]);
+    });
+  });
+
+  it(`should allow overriding the version per call`, () => {
+    const uuid = KDUID();
+    expect(versionOf(uuid.generate(7))).toBe('7');
+    expect(versionOf(uuid.generate({ version: 1 }))).toBe('1');
+    expect(versionOf(uuid.generate())).toBe('4');
+    expect(uuid.getExisting()).toHaveLength(3);
+  });
+
+  it(`should only validate the requested version`, () => {
+    const uuid = KDUID();
+    const v7 = uuid.generate(7);
+    expect(uuid.validate(v7)).toHaveLength(0);
+    expect(uuid.validate(v7, 4)).toHaveLength(0);
+    expect(uuid.validate(v7, 7)).toEqual([v7]);
+    expect(uuid.validate(validUID, 'any')).toEqual([validUID]);
+    expect(uuid.validate('invalid-uid', 'any')).toHaveLength(0);
+  });
+
+  it(`should generate known name-based identifiers`, () => {
+    const uuid = KDUID();
+    const namespace = KDUIDNamespaces.DNS;
+    expect(uuid.generate({ version: 3, namespace, name: 'python.org' })).toBe(
+      '6fa459ea-ee8a-3ca4-894e-db77e160355e'
+    );
+    expect(uuid.generate({ version: 5, namespace, name: 'python.org' })).toBe(
+      '886313e1-3b8a-5372-9b90-0c9aee199e5d'
+    );
+    expect(
+      uuid.generate({
+        version: 5,
+        namespace: KDUIDNamespaces.URL,
+        name: 'https://example.com/ü',
+      })
+    ).toBe('a17f7a1d-6bb5-51a9-9d32-f9d2fdeec8b6');
+  });
+
+  it(`should return the same name-based identifier for the same name`, () => {
+    const uuid = KDUID([], { version: 5, namespace: KDUIDNamespaces.URL });
+    const a = uuid.generate({ name: 'kd' });
+    expect(uuid.generate({ name: 'kd' })).toBe(a);
+    expect(uuid.generate({ name: 'kd2' })).not.toBe(a);
+    expect(uuid.getExisting()).toHaveLength(2);
+  });
+
+  it(`should throw if a name-based identifier has no name or namespace`, () => {
+    expect(() => KDUID().generate(5)).toThrow(TypeError);
+    expect(() => KDUID().generate({ version: 3, name: 'kd' })).toThrow(
+      TypeError
+    );
+  });
+
+  it(`should generate nil and max identifiers`, () => {
+    const uuid = KDUID();
+    const nil = uuid.generate('nil');
+    const max = uuid.generate('max');
+    expect(nil).toBe('00000000-0000-0000-0000-000000000000');
+    expect(max).toBe('ffffffff-ffff-ffff-ffff-ffffffffffff');
+    expect(uuid.validate([nil, max], 'any')).toEqual([nil, max]);
+    expect(uuid.validate(nil, 'nil')).toEqual([nil]);
+    expect(uuid.validate(max, 'nil')).toHaveLength(0);
+  });
+
+  it(`should generate time-ordered version 6 and 7 identifiers`, () => {
+    ([6, 7] as const).forEach((version) => {
+      const uuid = KDUID([], { version: version });
+      const first = uuid.generate();
+      const start = Date.now();
+      while (Date.now() === start);
+      const second = uuid.generate();
+      expect(first < second).toBe(true);
+    });
+  });
+
+  it(`should embed the current unix time in version 7 identifiers`, () => {
+    const before = Date.now();
+    const uid = KDUID([], { version: 7 }).generate();
+    const ms = parseInt(uid.replace(/-/g, '').slice(0, 12), 16);
+    expect(ms).toBeGreaterThanOrEqual(before);
+    expect(ms).toBeLessThanOrEqual(Date.now());
+  });
+
+  it(`should generate unique version 1 identifiers within a millisecond`, () => {
+    const uuid = KDUID([], { version: 1 });
+    const uids = [...new Array(1000)].map(() => uuid.generate());
+    expect(new Set(uids).size).toBe(uids.length);
+    expect(uuid.validate(uids)).toHaveLength(uids.length);
+  });
+
+  it(`should accept any version when setting previously generated values`, () => {
+    const uuid = KDUID();
+    const uids = [uuid.generate(1), uuid.generate(7), validUID];
+    expect(uuid.setExisting(uids)).toBe(true);
+    expect(uuid.setExisting(['invalid-uid'])).toBe(false);
+  });
+});
+
+describe('uuid distributed mode', () => {
+  it(`should embed the node and count within a millisecond`, () => {
+    const uuid = KDUID([], { node: 0xbeef, clock: () => 1700000000000 });
+    const uids = [...new Array(100)].map(() => uuid.generate());
+    expect(uuid.validate(uids, 7)).toEqual(uids);
+    expect([...uids].sort()).toEqual(uids);
+
+    const first = uuid.inspect(uids[0]);
+    expect(first).toMatchObject({
+      version: 7,
+      timestamp: 1700000000000,
+      node: 0xbeef,
+    });
+    expect(first.counter).toBeLessThan(2 ** 17);
+    expect(uuid.inspect(uids[99]).counter).toBe(first.counter + 99);
+  });
+
+  it(`should keep counting when the clock goes backwards`, () => {
+    let now = 2000;
+    const uuid = KDUID([], { node: 3, nodeBits: 4, clock: () => now });
+    const a = uuid.generate();
+    now = 1000;
+    const b = uuid.generate();
+    expect(b > a).toBe(true);
+    expect(uuid.inspect(b)).toMatchObject({ timestamp: 2000, node: 3 });
+    expect(uuid.inspect(b).counter).toBe(uuid.inspect(a).counter + 1);
+
+    now = 3000;
+    expect(uuid.inspect(uuid.generate()).timestamp).toBe(3000);
+  });
+
+  it(`should move to the next millisecond when the counter runs out`, () => {
+    const random = (bytes: Uint8Array) => bytes.fill(0xff);
+    const uuid = KDUID([], { node: 1, random: random, clock: () => 5000 });
+    const details = [...new Array(2 ** 17 + 2)].map(() =>
+      uuid.inspect(uuid.generate())
+    );
+    expect(details[0]).toMatchObject({ timestamp: 5000, counter: 2 ** 17 - 1 });
+    expect(details[2 ** 17].counter).toBe(2 ** 18 - 1);
+    expect(details[2 ** 17 + 1]).toMatchObject({ timestamp: 5001, node: 1 });
+  });
+
+  it(`should use the node for versions 1 and 6`, () => {
+    const uuid = KDUID([], { node: 0x1234, clock: () => 1700000000123 });
+    [1, 6].forEach((version: 1 | 6) => {
+      const details = uuid.inspect(uuid.generate(version));
+      expect(details).toMatchObject({
+        version: version,
+        timestamp: 1700000000123,
+        node: 0x1234,
+      });
+      expect(details.clockSeq).toBeLessThan(0x4000);
+    });
+  });
+
+  it(`should inspect identifiers of every version`, () => {
+    const uuid = KDUID([], { clock: () => 1234567890123 });
+    expect(uuid.inspect(uuid.generate(7))).toEqual({
+      version: 7,
+      timestamp: 1234567890123,
+    });
+    expect(uuid.inspect(validUID)).toEqual({ version: 4 });
+    expect(uuid.inspect(KDUIDNamespaces.DNS)).toMatchObject({
+      version: 1,
+      timestamp: Date.parse('1998-02-04T22:13:53.151Z'),
+    });
+    expect(uuid.inspect(uuid.generate('nil'))).toEqual({ version: 'nil' });
+    expect(uuid.inspect(uuid.generate('max'))).toEqual({ version: 'max' });
+    expect(uuid.inspect('not-a-uid')).toBeUndefined();
+  });
+
+  it(`should reject nodes that don't fit`, () => {
+    expect(() => KDUID([], { node: 2 ** 16 })).toThrow(RangeError);
+    expect(() => KDUID([], { node: 16, nodeBits: 4 })).toThrow(RangeError);
+    expect(() => KDUID([], { node: -1 })).toThrow(RangeError);
+    expect(() => KDUID([], { nodeBits: 33 })).toThrow(RangeError);
+  });
+});
+
+describe('uuid retention', () => {
+  it(`should keep every value when unbounded`, () => {
+    const uuid = KDUID([], { retention: { mode: 'unbounded' } });
+    const uids = [...new Array(100)].map(() => uuid.generate());
+    expect(uuid.getExisting()).toEqual(uids);
+  });
+
+  it(`should keep only the most recent values with lru`, () => {
+    const uuid = KDUID([], { retention: { mode: 'lru', maxSize: 10 } });
+    const uids = [...new Array(25)].map(() => uuid.generate());
+    expect(uuid.getExisting()).toEqual(uids.slice(-10));
+
+    expect(uuid.setExisting(uids)).toBe(true);
+    expect(uuid.getExisting()).toEqual(uids.slice(-10));
+  });
+
+  it(`should keep values that are checked with lru`, () => {
+    const uuid = KDUID([], { retention: { mode: 'lru', maxSize: 3 } });
+    const [a, b] = [uuid.generate(), uuid.generate(), uuid.generate()];
+    expect(uuid.hasExisting(a)).toBe(true);
+    uuid.generate();
+    expect(uuid.hasExisting(a)).toBe(true);
+    expect(uuid.hasExisting(b)).toBe(false);
+  });
+
+  it(`should remove values from the store`, () => {
+    const uuid = KDUID();
+    const [a, b] = [uuid.generate(), uuid.generate()];
+    expect(uuid.deleteExisting(a)).toBe(true);
+    expect(uuid.deleteExisting(a)).toBe(false);
+    expect(uuid.getExisting()).toEqual([b]);
+  });
+
+  it(`should add values to the store without clearing it`, () => {
+    const uuid = KDUID();
+    const a = uuid.generate();
+    const b = 'aa97b177-9383-4934-8543-0f91a7a02836';
+    expect(uuid.hasExisting(b)).toBe(false);
+    expect(uuid.addExisting(b)).toBe(true);
+    expect(uuid.hasExisting(b)).toBe(true);
+    expect(uuid.addExisting(['invalid'])).toBe(false);
+    expect(uuid.getExisting()).toEqual([a, b]);
+  });
+
+  it(`should remember values in a bloom filter without listing them`, () => {
+    const uuid = KDUID([validUID], {
+      retention: { mode: 'bloom', capacity: 1000, falsePositiveRate: 0.01 },
+    });
+    const uids = [...new Array(1000)].map(() => uuid.generate());
+    expect(new Set(uids).size).toBe(uids.length);
+    expect(uuid.getExisting()).toEqual([]);
+    expect(uuid.deleteExisting(validUID)).toBe(false);
+  });
+
+  it(`should keep bloom filter false positives near the configured rate`, () => {
+    const store = KDUIDStore({
+      mode: 'bloom',
+      capacity: 1000,
+      falsePositiveRate: 0.01,
+    });
+    const uuid = KDUID();
+    const stored = [...new Array(1000)].map(() => uuid.generate());
+    stored.forEach((uid) => store.add(uid));
+    expect(stored.every((uid) => store.has(uid))).toBe(true);
+
+    const unseen = [...new Array(1000)].map(() => uuid.generate());
+    const falsePositives = unseen.filter((uid) => store.has(uid)).length;
+    expect(falsePositives).toBeLessThan(50);
+  });
+
+  it(`should reject invalid retention options`, () => {
+    expect(() => KDUID([], { retention: { mode: 'lru', maxSize: 0 } })).toThrow(
+      RangeError
+    );
+    expect(() =>
+      KDUID([], {
+        retention: { mode: 'bloom', capacity: 10, falsePositiveRate: 1 },
+      })
+    ).toThrow(RangeError);
+  });
+});
+
+describe('uuid random source', () => {
+  it(`should detect a cryptographically secure source`, () => {
+    const uuid = KDUID([], { strict: true });
+    expect(uuid.validate(uuid.generate())).toHaveLength(1);
+  });
+
+  it(`should use an injected random source`, () => {
+    const random = jest.fn((bytes: Uint8Array) => bytes.fill(0xff));
+    const uid = KDUID([], { random }).generate();
+    expect(random).toHaveBeenCalled();
+    expect(uid).toBe('ffffffff-ffff-4fff-bfff-ffffffffffff');
+  });
+
+  it(`should generate the same sequence for the same seed`, () => {
+    const sequence = (seed: number | string) => {
+      const uuid = KDUID([], { random: KDUIDSeededRandom(seed) });
+      return [...new Array(10)].map(() => uuid.generate());
+    };
+    expect(sequence(42)).toEqual(sequence(42));
+    expect(sequence('kd')).toEqual(sequence('kd'));
+    expect(sequence(42)).not.toEqual(sequence(43));
+    expect(KDUID().validate(sequence(42))).toHaveLength(10);
+  });
+
+  it(`should draw splitmix32 values from a seed`, () => {
+    const random = KDUIDSeededRandom(0);
+    expect(Array.from(random(new Uint8Array(8)))).toEqual([
+      0x0e,
+      0x2f,
+      0xca,
+      0x92,
+      0xf3,
+      0xe3,
+      0xd6,
+      0x3c,
+    ]);
+    expect(random.state()).toEqual({ seed: 0, counter: 2 });
+    expect(Array.from(KDUIDSeededRandom(0, 1)(new Uint8Array(4)))).toEqual([
+      0xf3,
+      0xe3,
+      0xd6,
+      0x3c,
+    ]);
+    expect(() => KDUIDSeededRandom(0, -1)).toThrow(RangeError);
+  });
+
+  it(`should resume a seeded sequence from its counter`, () => {
+    const uuid = KDUID([], { seed: 'replay' });
+    const first = [...new Array(5)].map(() => uuid.generate());
+    expect(uuid.getSeed()).toEqual({ seed: 'replay', counter: 20 });
+
+    const resumed = KDUID([], { seed: 'replay', counter: 8 });
+    expect([...new Array(3)].map(() => resumed.generate())).toEqual(
+      first.slice(2)
+    );
+
+    const reseeded = KDUID();
+    expect(reseeded.getSeed()).toBeUndefined();
+    expect(reseeded.setSeed('replay', 12)).toBe(true);
+    expect(reseeded.generate()).toBe(first[3]);
+    expect(reseeded.setSeed('replay', 1.5)).toBe(false);
+    expect(KDUID([], { random: KDUIDSeededRandom(1) }).getSeed()).toEqual({
+      seed: 1,
+      counter: 0,
+    });
+  });
+
+  it(`should throw in strict mode without a secure source`, () => {
+    jest.isolateModules(() => {
+      jest.doMock('crypto', () => ({}));
+      const root: any = globalThis;
+      const crypto = root.crypto;
+      delete root.crypto;
+      try {
+        const { KDUIDRandom } = require('../src/module/dev/KDUIDRandom');
+        expect(() => KDUIDRandom(true)).toThrow(Error);
+        const fallback = KDUIDRandom(false);
+        expect(fallback(new Uint8Array(16))).toHaveLength(16);
+      } finally {
+        if (crypto) root.crypto = crypto;
+        jest.dontMock('crypto');
+      }
+    });
+  });
+});
+
+describe('uuid encodings', () => {
+  const uid = validUID.toLowerCase();
+  const forms = {
+    hex: uid,
+    upper: validUID,
+    braced: `{${uid}}`,
+    urn: `urn:uuid:${uid}`,
+    base32: '5AJYRQF4W394T8AGRFJ6KT0A1P',
+    base58: 'N4oKyD3ax7HiZzeMDBBYWR',
+    base64url: 'qpexd5ODSTSFQw-Rp6AoNg',
+  };
+
+  it(`should encode to every form`, () => {
+    const uuid = KDUID();
+    Object.entries(forms).forEach(([encoding, encoded]) => {
+      expect(uuid.encode(validUID, encoding as KDUIDEncoding)).toBe(encoded);
+    });
+    const bytes = uuid.encode(validUID, 'bytes');
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0xaa, 0x97, 0xb1, 0x77]);
+  });
+
+  it(`should decode every form to the canonical form`, () => {
+    const uuid = KDUID();
+    Object.values(forms).forEach((encoded) => {
+      expect(uuid.decode(encoded)).toBe(uid);
+    });
+    expect(uuid.decode(uuid.encode(uid, 'bytes'))).toBe(uid);
+    expect(uuid.decode('5ajyrqf4w394t8agrfj6kt0a1p')).toBe(uid);
+    expect(uuid.decode('invalid-uid')).toBeUndefined();
+  });
+
+  it(`should round trip generated values of every version`, () => {
+    const uuid = KDUID();
+    const encodings: KDUIDEncoding[] = [
+      'upper',
+      'braced',
+      'urn',
+      'base32',
+      'base58',
+      'base64url',
+      'bytes',
+    ];
+    ([1, 4, 6, 7, 'nil', 'max'] as const).forEach((version) => {
+      const generated = uuid.generate(version);
+      encodings.forEach((encoding) => {
+        expect(uuid.decode(uuid.encode(generated, encoding))).toBe(generated);
+      });
+    });
+  });
+
+  it(`should not read short or word-like strings as compact forms`, () => {
+    const uuid = KDUID();
+    const words = [
+      '1',
+      'N4oKyD3ax7',
+      'primaryNavigationLinkA',
+      'userProfileAvatarImg0g',
+    ];
+    expect(uuid.validate(words, 'any')).toEqual([]);
+    words.forEach((word) => expect(uuid.decode(word)).toBeUndefined());
+    expect(uuid.decode('1111111111111111111111')).toBe(
+      '00000000-0000-0000-0000-000000000000'
+    );
+  });
+
+  it(`should validate every form`, () => {
+    const uuid = KDUID();
+    const encoded = Object.values(forms);
+    expect(uuid.validate(encoded)).toEqual(encoded);
+    expect(uuid.validate(['{invalid-uid}', 'urn:uuid:1234'])).toHaveLength(0);
+  });
+
+  it(`should store existing values of every form canonically`, () => {
+    const uuid = KDUID([forms.base58]);
+    expect(uuid.setExisting([forms.base64url])).toBe(true);
+    expect(uuid.getExisting()).toEqual([uid]);
+    Object.values(forms).forEach((encoded) => {
+      expect(uuid.hasExisting(encoded)).toBe(true);
+    });
+    expect(uuid.addExisting(forms.urn)).toBe(true);
+    expect(uuid.getExisting()).toEqual([uid]);
+    expect(uuid.deleteExisting(forms.braced)).toBe(true);
+    expect(uuid.hasExisting(uid)).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * @file KDUIDCli.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for KDUIDCli.ts
+ */
+
+import { KDUID } from '../src/module/dev/KDUID';
+import { KDUIDCli } from '../src/module/dev/KDUIDCli';
+import { KDUIDEncode } from '../src/module/dev/KDUIDEncoding';
+
+const uidA = 'aa97b177-9383-4934-8543-0f91a7a02836';
+const uidB = '0b3a5d4c-1f2e-4a6b-9c8d-7e6f5a4b3c2d';
+const uidC = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+
+/**
+ * Run the CLI against in-memory files and stdin.
+ */
+const run = async (
+  args: string[],
+  files: { [path: string]: string } = {},
+  stdin: string = ''
+) => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await KDUIDCli(args, {
+    stdout: (line) => stdout.push(line),
+    stderr: (line) => stderr.push(line),
+    readFile: (path) => {
+      if (!(path in files)) throw new Error('ENOENT');
+      return files[path];
+    },
+    readStdin: () => Promise.resolve(stdin),
+  });
+  return { code, stdout, stderr };
+};
+
+const state = JSON.stringify({
+  version: 1,
+  entries: [['a', uidA]],
+  existing: [uidA, uidB],
+  tombstones: { [uidC]: 100 },
+});
+
+describe('cli generate', () => {
+  it(`should generate ids of a version and encoding`, async () => {
+    const { code, stdout } = await run(['generate', '-n', '3', '-v', '7']);
+    expect(code).toBe(0);
+    expect(stdout.length).toBe(3);
+    expect(KDUID().validate(stdout, 7)).toEqual(stdout);
+    expect(new Set(stdout).size).toBe(3);
+
+    const encoded = await run(['generate', '--encoding=base64url']);
+    expect(encoded.stdout[0]).toMatch(/^[A-Za-z0-9_-]{22}$/);
+  });
+
+  it(`should generate name-based ids`, async () => {
+    const { stdout } = await run([
+      'generate',
+      '-v',
+      '5',
+      '--namespace',
+      'dns',
+      '--name',
+      'example.com',
+    ]);
+    expect(stdout).toEqual(['cfbff0d1-9375-5685-968c-48ce8b15ae17']);
+  });
+
+  it(`should generate a repeatable sequence from a seed`, async () => {
+    const first = await run(['generate', '-n', '3', '--seed', '42']);
+    const second = await run(['generate', '-n', '3', '--seed=42']);
+    expect(first.stdout).toEqual(second.stdout);
+    const uuid = KDUID([], { seed: 42 });
+    expect(first.stdout[0]).toBe(uuid.generate());
+  });
+
+  it(`should exit with 2 for bad arguments`, async () => {
+    expect((await run(['generate', '-v', '9'])).code).toBe(2);
+    expect((await run(['generate', '-n', 'many'])).code).toBe(2);
+    expect((await run(['generate', '-v', '3'])).code).toBe(2);
+    expect(
+      (await run(['generate', '-v', '5', '--namespace', 'nope', '--name', 'x']))
+        .code
+    ).toBe(2);
+    expect((await run(['generate', '--frob'])).code).toBe(2);
+    expect((await run(['frob'])).code).toBe(2);
+    const { code, stderr } = await run([]);
+    expect(code).toBe(2);
+    expect(stderr[0]).toBe('kduid: missing command');
+  });
+
+  it(`should print the usage`, async () => {
+    const { code, stdout } = await run(['--help']);
+    expect(code).toBe(0);
+    expect(stdout[0]).toMatch(/^Usage: kduid/);
+  });
+});
+
+describe('cli validate', () => {
+  it(`should report each line of stdin`, async () => {
+    const { code, stdout } = await run(
+      ['validate'],
+      {},
+      `${uidA}\nnot-a-uid\n\n${KDUIDEncode(uidB, 'base58')}\n`
+    );
+    expect(code).toBe(1);
+    expect(stdout).toEqual([
+      `1\tvalid\t${uidA}`,
+      '2\tinvalid\tnot-a-uid',
+      `4\tvalid\t${KDUIDEncode(uidB, 'base58')}`,
+    ]);
+  });
+
+  it(`should validate a file for a version quietly`, async () => {
+    const files = { 'ids.txt': `${uidA}\n${uidB}\n` };
+    expect(await run(['validate', '-q', 'ids.txt'], files)).toEqual({
+      code: 0,
+      stdout: [],
+      stderr: [],
+    });
+    expect((await run(['validate', '-v', '1', 'ids.txt'], files)).code).toBe(1);
+    expect((await run(['validate', 'missing.txt'], files)).code).toBe(2);
+  });
+});
+
+describe('cli convert', () => {
+  it(`should convert between encodings`, async () => {
+    const { code, stdout, stderr } = await run(
+      ['convert', '-e', 'base32', '-'],
+      {},
+      `${KDUIDEncode(uidA, 'urn')}\nnot-a-uid\n`
+    );
+    expect(code).toBe(1);
+    expect(stdout).toEqual([KDUIDEncode(uidA, 'base32')]);
+    expect(stderr).toEqual(['2\tinvalid\tnot-a-uid']);
+
+    const back = await run(['convert'], {}, stdout[0]);
+    expect(back.stdout).toEqual([uidA]);
+  });
+});
+
+describe('cli state', () => {
+  it(`should dedupe ids in any form`, async () => {
+    const { code, stdout, stderr } = await run(
+      ['dedupe'],
+      {},
+      `${uidA}\n${uidA.toUpperCase()}\n${uidB}\n`
+    );
+    expect(code).toBe(0);
+    expect(stdout).toEqual([uidA, uidB]);
+    expect(stderr).toEqual([`2\tduplicate\t${uidA.toUpperCase()}`]);
+  });
+
+  it(`should dedupe ids against a state file`, async () => {
+    const fresh = KDUID().generate();
+    const { stdout, stderr } = await run(
+      ['dedupe', '-s', 'state.json'],
+      { 'state.json': state },
+      `${uidA}\n${fresh}\n${uidC}\n`
+    );
+    expect(stdout).toEqual([fresh]);
+    expect(stderr).toEqual([`1\tused\t${uidA}`, `3\tretired\t${uidC}`]);
+  });
+
+  it(`should check ids against a state file`, async () => {
+    const fresh = KDUID().generate();
+    const files = {
+      'state.json': state,
+      'ids.txt': [uidA, uidB, uidC, fresh, fresh, 'x'].join('\n'),
+    };
+    const { code, stdout } = await run(
+      ['check', '--state', 'state.json', 'ids.txt'],
+      files
+    );
+    expect(code).toBe(1);
+    expect(stdout).toEqual([
+      `1\tused\t${uidA}`,
+      `2\tissued\t${uidB}`,
+      `3\tretired\t${uidC}`,
+      `4\tfree\t${fresh}`,
+      `5\tduplicate\t${fresh}`,
+      '6\tinvalid\tx',
+    ]);
+
+    const free = await run(['check', '-s', 'state.json', '-'], files, fresh);
+    expect(free.code).toBe(0);
+  });
+
+  it(`should reject missing or malformed state files`, async () => {
+    expect((await run(['check'], {}, uidA)).code).toBe(2);
+    expect((await run(['check', '-s', 'none.json'], {}, uidA)).code).toBe(2);
+    const files = { 'bad.json': '{', 'old.json': '{"version":0}' };
+    expect((await run(['check', '-s', 'bad.json'], files, uidA)).code).toBe(2);
+    expect((await run(['dedupe', '-s', 'old.json'], files, uidA)).code).toBe(2);
+  });
+});
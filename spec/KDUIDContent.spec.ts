@@ -0,0 +1,57 @@
+/**
+ * @file KDUIDContent.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for KDUIDContent.ts
+ */
+
+import { KDUID, KDUIDNamespaces } from '../src/module/dev/KDUID';
+import {
+  KDUIDCanonical,
+  KDUIDContentNamespace,
+} from '../src/module/dev/KDUIDContent';
+
+describe('canonical serialization', () => {
+  it(`should sort keys at every depth`, () => {
+    expect(
+      KDUIDCanonical({ b: { d: 1, c: [2, { f: 3, e: 4 }] }, a: null })
+    ).toBe('{"a":null,"b":{"c":[2,{"e":4,"f":3}],"d":1}}');
+    expect(KDUIDCanonical({ b: 1, a: 2 })).toBe(KDUIDCanonical({ a: 2, b: 1 }));
+    expect(KDUIDCanonical(1)).not.toBe(KDUIDCanonical('1'));
+  });
+
+  it(`should follow JSON for toJSON and dropped values`, () => {
+    const date = new Date(0);
+    const value = { date: date, f: () => 1, u: undefined, list: [undefined] };
+    expect(KDUIDCanonical(value)).toBe(
+      '{"date":"1970-01-01T00:00:00.000Z","list":[null]}'
+    );
+    expect(KDUIDCanonical(Object.create(null))).toBe('{}');
+  });
+
+  it(`should reject values that don't serialize`, () => {
+    const circular: any = { a: 1 };
+    circular.self = circular;
+    expect(() => KDUIDCanonical(circular)).toThrow(TypeError);
+    expect(() => KDUIDCanonical([NaN])).toThrow(TypeError);
+    expect(() => KDUIDCanonical({ n: Infinity })).toThrow(TypeError);
+    expect(() => KDUIDCanonical(new Map())).toThrow(TypeError);
+    expect(() => KDUIDCanonical(undefined)).toThrow(TypeError);
+
+    const shared = { a: 1 };
+    expect(KDUIDCanonical([shared, shared])).toBe('[{"a":1},{"a":1}]');
+  });
+
+  it(`should use a v5 namespace`, () => {
+    expect(KDUIDContentNamespace).toBe(
+      KDUID().generate({
+        version: 5,
+        namespace: KDUIDNamespaces.URL,
+        name: 'https://github.com/justKD/KDUIDManager#content',
+      })
+    );
+  });
+});
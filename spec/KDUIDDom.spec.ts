@@ -0,0 +1,181 @@
+/**
+ * @file KDUIDDom.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for KDUIDDom.ts, run under jsdom.
+ */
+
+import { KDUID } from '../src/module/dev/KDUID';
+import { KDUIDDom } from '../src/module/dev/KDUIDDom';
+import { KDUIDEncode } from '../src/module/dev/KDUIDEncoding';
+import { KDUIDManager } from '../src/module/dev/KDUIDManager';
+
+/**
+ * Wait for the pending `MutationObserver` callbacks.
+ */
+const mutations = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const card = (uid?: string) => {
+  const element = document.createElement('div');
+  element.className = 'card';
+  if (uid) element.setAttribute('data-uid', uid);
+  return element;
+};
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('dom assign', () => {
+  it(`should assign uids and resolve elements`, () => {
+    const dom = KDUIDDom();
+    const element = document.createElement('span');
+    const uid = dom.assign(element);
+    expect(dom.assign(element)).toBe(uid);
+    expect(element.getAttribute('data-uid')).toBe(uid);
+    expect(dom.getUIDFor(element)).toBe(uid);
+    expect(dom.getElementFor(uid)).toBe(element);
+    expect(dom.getElementFor(KDUIDEncode(uid, 'base64url'))).toBe(element);
+
+    expect(dom.release(element)).toBe(true);
+    expect(element.hasAttribute('data-uid')).toBe(false);
+    expect(dom.getElementFor(uid)).toBeUndefined();
+    expect(dom.release(element)).toBe(false);
+  });
+
+  it(`should write to the configured attribute`, () => {
+    const element = document.createElement('span');
+    const uid = KDUIDDom({ attribute: 'id' }).assign(element);
+    expect(element.id).toBe(uid);
+
+    const other = document.createElement('span');
+    KDUIDDom({ attribute: 'data-card-id' }).assign(other);
+    expect(KDUID().validate(other.dataset.cardId).length).toBe(1);
+
+    const untouched = document.createElement('span');
+    KDUIDDom({ attribute: false }).assign(untouched);
+    expect(untouched.attributes.length).toBe(0);
+
+    expect(() => KDUIDDom({ attribute: 'title' })).toThrow(TypeError);
+  });
+
+  it(`should never overwrite an id that only reads as a compact or nil uid`, () => {
+    const dom = KDUIDDom({ attribute: 'id' });
+    ['primaryNavigationLinkA', 'userProfileAvatarImg0g', '1'].forEach((id) => {
+      const element = document.createElement('div');
+      element.id = id;
+      expect(dom.assign(element)).toBeUndefined();
+      expect(element.id).toBe(id);
+    });
+    const nil = document.createElement('div');
+    nil.id = '00000000-0000-0000-0000-000000000000';
+    expect(dom.assign(nil)).toBeUndefined();
+    expect(nil.id).toBe('00000000-0000-0000-0000-000000000000');
+    expect(dom.manager.size).toBe(0);
+  });
+
+  it(`should never overwrite an id that isn't a uid`, () => {
+    const dom = KDUIDDom({ attribute: 'id' });
+    const header = document.createElement('header');
+    header.id = 'header';
+    expect(dom.assign(header)).toBeUndefined();
+    expect(header.id).toBe('header');
+    expect(dom.manager.size).toBe(0);
+
+    const uid = KDUID().generate();
+    const rendered = document.createElement('div');
+    rendered.id = uid;
+    expect(dom.assign(rendered)).toBe(uid);
+  });
+
+  it(`should keep uids already written to elements`, () => {
+    const uid = KDUID().generate();
+    const dom = KDUIDDom();
+    const element = card(uid);
+    expect(dom.assign(element)).toBe(uid);
+
+    // a clone carries the same uid, so it gets a new one
+    const clone = element.cloneNode() as Element;
+    const fresh = dom.assign(clone);
+    expect(fresh).not.toBe(uid);
+    expect(clone.getAttribute('data-uid')).toBe(fresh);
+
+    const invalid = card('not-a-uid');
+    expect(KDUID().validate(dom.assign(invalid)).length).toBe(1);
+  });
+});
+
+describe('dom observer', () => {
+  it(`should assign uids to matching elements already in the root`, () => {
+    document.body.appendChild(card());
+    document.body.appendChild(document.createElement('p'));
+    const dom = KDUIDDom({ selector: '.card' });
+    expect(dom.manager.size).toBe(1);
+    expect(dom.scan()).toEqual(dom.manager.uids());
+    dom.disconnect();
+  });
+
+  it(`should assign and release uids as elements are added and removed`, async () => {
+    const dom = KDUIDDom({ selector: '.card' });
+    const list = document.createElement('section');
+    list.appendChild(card());
+    list.appendChild(card());
+    document.body.appendChild(list);
+    await mutations();
+
+    const [first, second] = Array.from(list.children);
+    const uid = first.getAttribute('data-uid');
+    expect(dom.getElementFor(uid)).toBe(first);
+    expect(dom.manager.size).toBe(2);
+
+    // moving an element keeps its uid
+    list.appendChild(first);
+    await mutations();
+    expect(dom.getUIDFor(first)).toBe(uid);
+
+    list.removeChild(second);
+    await mutations();
+    expect(dom.getUIDFor(second)).toBeUndefined();
+    expect(dom.manager.size).toBe(1);
+    dom.disconnect();
+  });
+
+  it(`should process pending mutations on flush`, () => {
+    const dom = KDUIDDom({ selector: '.card' });
+    const element = card();
+    document.body.appendChild(element);
+    expect(dom.getUIDFor(element)).toBeUndefined();
+    dom.flush();
+    expect(dom.getUIDFor(element)).toBe(element.getAttribute('data-uid'));
+
+    dom.disconnect();
+    document.body.appendChild(card());
+    dom.flush();
+    expect(dom.manager.size).toBe(1);
+  });
+
+  it(`should retire the uids of removed elements with tombstones`, () => {
+    const manager = KDUIDManager<Element>({ tombstones: true });
+    const root = document.createElement('main');
+    document.body.appendChild(root);
+    const dom = KDUIDDom({ manager: manager, selector: '.card', root: root });
+    const element = card();
+    root.appendChild(element);
+    dom.flush();
+    const uid = dom.getUIDFor(element);
+
+    root.removeChild(element);
+    dom.flush();
+    expect(manager.isRetired(uid)).toBe(true);
+
+    // the element comes back with its retired uid, so it gets a new one
+    root.appendChild(element);
+    dom.flush();
+    expect(dom.getUIDFor(element)).not.toBe(uid);
+    expect(element.getAttribute('data-uid')).toBe(dom.getUIDFor(element));
+    dom.disconnect();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @file KDUIDManager.bench.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest benchmarks comparing the reverse index in KDUIDManager.ts against the
+ * previous linear scans at 100k entries. Not matched by the default test run.
+ * @example
+ * npm run bench
+ */
+
+import { KDUID } from '../src/module/dev/KDUID';
+import { KDUIDManager } from '../src/module/dev/KDUIDManager';
+
+const size = 100000;
+const lookups = 200;
+const deletes = 100;
+
+/**
+ * Time a function in milliseconds.
+ * @param {() => void} fn - The work to time.
+ */
+const time = (fn: () => void): number => {
+  const start = Date.now();
+  fn();
+  return Date.now() - start;
+};
+
+/**
+ * The linear scans KDUIDManager used before the reverse index was added.
+ */
+const linear = (map: Map<any, string>) => {
+  const generator = KDUID();
+  return {
+    hasKeyFor: (uid: string): boolean => {
+      const uids = Array.from(map.values());
+      for (let i in uids) if (uids[i] === uid) return true;
+      return false;
+    },
+    getKeyFor: (uid: string): any => {
+      const entries = Array.from(map.entries());
+      for (let i in entries) if (entries[i][1] === uid) return entries[i][0];
+      return;
+    },
+    deleteEntryForUID: (uid: string): boolean => {
+      const entries = Array.from(map.entries());
+      for (let i in entries) {
+        if (entries[i][1] === uid) {
+          map.delete(entries[i][0]);
+          generator.setExisting(Array.from(map.values()));
+          return true;
+        }
+      }
+      return false;
+    },
+  };
+};
+
+describe(`KDUIDManager at ${size} entries`, () => {
+  const entries: [any, string][] = [...new Array(size)].map((_, i) => [
+    { id: i },
+    KDUID().generate(),
+  ]);
+  const manager = KDUIDManager();
+  manager.setEntries(entries);
+  const reference = linear(new Map(entries));
+
+  // sample uids from the end of the list, the worst case for a linear scan
+  const sample = entries.slice(-lookups).map(([, uid]) => uid);
+  const report = (name: string, indexed: number, scanned: number) =>
+    console.log(`${name}: indexed ${indexed}ms, linear ${scanned}ms`);
+
+  it(`should look up keys faster than a linear scan`, () => {
+    const indexed = time(() => sample.forEach((uid) => manager.getKeyFor(uid)));
+    const scanned = time(() =>
+      sample.forEach((uid) => reference.getKeyFor(uid))
+    );
+    report('getKeyFor', indexed, scanned);
+    expect(indexed).toBeLessThan(scanned);
+  });
+
+  it(`should check for keys faster than a linear scan`, () => {
+    const indexed = time(() => sample.forEach((uid) => manager.hasKeyFor(uid)));
+    const scanned = time(() =>
+      sample.forEach((uid) => reference.hasKeyFor(uid))
+    );
+    report('hasKeyFor', indexed, scanned);
+    expect(indexed).toBeLessThan(scanned);
+  });
+
+  it(`should delete entries faster than a linear scan`, () => {
+    const targets = sample.slice(-deletes);
+    const indexed = time(() =>
+      targets.forEach((uid) => manager.deleteEntryForUID(uid))
+    );
+    const scanned = time(() =>
+      targets.forEach((uid) => reference.deleteEntryForUID(uid))
+    );
+    report('deleteEntryForUID', indexed, scanned);
+    expect(manager.uids()).toHaveLength(size - deletes);
+    expect(indexed).toBeLessThan(scanned);
+  });
+});
@@ -0,0 +1,1430 @@
+/**
+ * @file KDUIDManager.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for KDUIDManager.ts
+ */
+
+import { KDUID } from '../src/module/dev/KDUID';
+import { KDUIDEncode } from '../src/module/dev/KDUIDEncoding';
+import {
+  KDUIDManager,
+  KDUIDManagerStateVersion,
+} from '../src/module/dev/KDUIDManager';
+import { KDUIDMemoryStorage } from '../src/module/dev/KDUIDStorage';
+
+describe('manager entries', () => {
+  it(`should map targets to uids and back`, () => {
+    const manager = KDUIDManager();
+    const entity = { name: 'kd' };
+    expect(manager.hasUIDFor(entity)).toBe(false);
+    expect(manager.getUIDFor(entity)).toBeUndefined();
+
+    const uid = manager.generateUIDFor(entity);
+    expect(KDUID().validate(uid).length).toBe(1);
+    expect(manager.hasUIDFor(entity)).toBe(true);
+    expect(manager.getUIDFor(entity)).toBe(uid);
+    expect(manager.hasKeyFor(uid)).toBe(true);
+    expect(manager.getKeyFor(uid)).toBe(entity);
+    expect(manager.hasKeyFor(KDUID().generate())).toBe(false);
+    expect(manager.getKeyFor(KDUID().generate())).toBeUndefined();
+
+    expect(manager.keys()).toEqual([entity]);
+    expect(manager.uids()).toEqual([uid]);
+    expect(manager.entries()).toEqual([[entity, uid]]);
+  });
+
+  it(`should replace the uid of a target that already has one`, () => {
+    const manager = KDUIDManager();
+    const first = manager.generateUIDFor('a');
+    const second = manager.generateUIDFor('a');
+    expect(second).not.toBe(first);
+    expect(manager.entries()).toEqual([['a', second]]);
+    expect(manager.hasKeyFor(first)).toBe(false);
+  });
+
+  it(`should return copies of the keys, uids and entries`, () => {
+    const manager = KDUIDManager();
+    manager.generateUIDsFor(['a', 'b']);
+    manager.keys().pop();
+    manager.uids().pop();
+    manager.entries().pop();
+    expect(manager.size).toBe(2);
+  });
+
+  it(`should delete entries by uid or key and release their uids`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    const [a, b] = manager.generateUIDsFor(['a', 'b']) as string[];
+
+    expect(manager.deleteEntryForUID(a)).toBe(true);
+    expect(manager.deleteEntryForUID(a)).toBe(false);
+    expect(manager.deleteEntryForKey('b')).toBe(true);
+    expect(manager.deleteEntryForKey('b')).toBe(false);
+    expect(manager.entries()).toEqual([]);
+    expect(generator.hasExisting(a)).toBe(false);
+    expect(generator.hasExisting(b)).toBe(false);
+  });
+
+  it(`should clear every entry on reset`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    const uid = manager.generateUIDFor('a');
+    manager.reset();
+    expect(manager.size).toBe(0);
+    expect(manager.getUIDFor('a')).toBeUndefined();
+    expect(generator.hasExisting(uid)).toBe(false);
+    expect(manager.generateUIDFor('a')).not.toBe(uid);
+  });
+});
+
+describe('manager setEntries', () => {
+  const [a, b] = [KDUID().generate(), KDUID().generate()];
+
+  it(`should replace every existing entry`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    const old = manager.generateUIDFor('old');
+    expect(manager.setEntries([['a', a]])).toEqual({
+      changed: [],
+      invalid: [],
+    });
+    expect(manager.entries()).toEqual([['a', a]]);
+    expect(generator.hasExisting(old)).toBe(false);
+    expect(generator.hasExisting(a)).toBe(true);
+  });
+
+  it(`should clear the manager with an empty list`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    manager.generateUIDFor('a');
+    expect(manager.setEntries([])).toEqual({ changed: [], invalid: [] });
+    expect(manager.size).toBe(0);
+    expect(generator.getExisting()).toEqual([]);
+  });
+
+  it(`should keep the latest uid of a duplicate key`, () => {
+    const manager = KDUIDManager();
+    manager.setEntries([
+      ['a', a],
+      ['a', b],
+    ]);
+    expect(manager.entries()).toEqual([['a', b]]);
+  });
+
+  it(`should regenerate uids held by an earlier entry in any form`, () => {
+    const manager = KDUIDManager();
+    const result = manager.setEntries([
+      ['a', a],
+      ['b', b],
+      ['c', a.toUpperCase()],
+      ['d', KDUIDEncode(b, 'base64url')],
+    ]);
+    const c = manager.getUIDFor('c');
+    const d = manager.getUIDFor('d');
+    expect(result).toEqual({
+      changed: [
+        ['c', c],
+        ['d', d],
+      ],
+      invalid: [],
+    });
+    expect(new Set([a, b, c, d]).size).toBe(4);
+    expect(manager.getKeyFor(a)).toBe('a');
+    expect(manager.getKeyFor(b)).toBe('b');
+  });
+
+  it(`should report the nil and max uids as invalid`, () => {
+    const entries: [string, string][] = [
+      ['a', '00000000-0000-0000-0000-000000000000'],
+      ['b', 'FFFFFFFF-FFFF-FFFF-FFFF-FFFFFFFFFFFF'],
+    ];
+    const manager = KDUIDManager();
+    expect(manager.setEntries(entries)).toEqual({
+      changed: [],
+      invalid: entries,
+    });
+    expect(manager.importEntries(entries, { mode: 'merge' })).toEqual({
+      changed: [],
+      invalid: entries,
+      conflicts: [],
+    });
+    expect(
+      manager.fromJSON({
+        version: KDUIDManagerStateVersion,
+        entries: entries,
+        existing: [],
+      })
+    ).toEqual({ changed: [], invalid: entries });
+    expect(manager.size).toBe(0);
+  });
+
+  it(`should report short and word-like uids as invalid`, () => {
+    const manager = KDUIDManager();
+    const entries: [string, string][] = [
+      ['a', '1'],
+      ['b', 'primaryNavigationLinkA'],
+    ];
+    expect(manager.setEntries(entries)).toEqual({
+      changed: [],
+      invalid: entries,
+    });
+    expect(manager.size).toBe(0);
+  });
+
+  it(`should reject a list that isn't an array`, () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = KDUIDManager();
+    manager.generateUIDFor('a');
+    expect(manager.setEntries('a' as any)).toBe(false);
+    expect(errors).toHaveBeenCalledTimes(1);
+    expect(manager.size).toBe(1);
+    errors.mockRestore();
+  });
+});
+
+describe('manager serialization', () => {
+  const users = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+  const codec = {
+    encode: (user: { id: string }) => user.id,
+    decode: (id: string) => users.find((user) => user.id === id),
+  };
+
+  it(`should serialize entries and existing uids`, () => {
+    const manager = KDUIDManager();
+    const uids = users.map((user) => manager.generateUIDFor(user));
+    const state = manager.toJSON(codec);
+
+    expect(state.version).toBe(KDUIDManagerStateVersion);
+    expect(state.entries).toEqual([
+      ['a', uids[0]],
+      ['b', uids[1]],
+      ['c', uids[2]],
+    ]);
+    expect(state.existing).toEqual(uids);
+  });
+
+  it(`should round trip through JSON.stringify with JSON-friendly keys`, () => {
+    const manager = KDUIDManager();
+    const uid = manager.generateUIDFor('kd');
+    const restored = KDUIDManager();
+
+    expect(restored.fromJSON(JSON.stringify(manager))).toEqual({
+      changed: [],
+      invalid: [],
+    });
+    expect(restored.getKeyFor(uid)).toBe('kd');
+  });
+
+  it(`should resolve object keys with a codec`, () => {
+    const manager = KDUIDManager();
+    users.forEach((user) => manager.generateUIDFor(user));
+    const json = JSON.stringify(manager.toJSON(codec));
+
+    const restored = KDUIDManager();
+    restored.fromJSON(json, codec);
+    expect(restored.entries()).toEqual(manager.entries());
+    expect(restored.getUIDFor(users[1])).toBe(manager.getUIDFor(users[1]));
+  });
+
+  it(`should report descriptors that can't be resolved as invalid`, () => {
+    const manager = KDUIDManager();
+    const uid = manager.generateUIDFor({ id: 'missing' });
+    const state = manager.toJSON(codec);
+
+    const result = KDUIDManager().fromJSON(state, codec);
+    expect(result).toEqual({ changed: [], invalid: [['missing', uid]] });
+  });
+
+  it(`should not reissue previously generated uids after restoring`, () => {
+    const manager = KDUIDManager();
+    const first = manager.generateUIDFor('kd');
+    // regenerating leaves the first uid in the generator store only
+    manager.generateUIDFor('kd');
+    const state = manager.toJSON();
+    expect(state.existing).toContain(first);
+
+    const restored = KDUIDManager();
+    restored.fromJSON(state);
+    expect(restored.toJSON().existing).toContain(first);
+  });
+
+  it(`should reject unsupported or malformed state`, () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = KDUIDManager();
+    expect(manager.fromJSON('{')).toBe(false);
+    expect(manager.fromJSON({ version: 99, entries: [], existing: [] })).toBe(
+      false
+    );
+    expect(manager.fromJSON({ version: 1 } as any)).toBe(false);
+    error.mockRestore();
+  });
+});
+
+describe('manager seeds', () => {
+  it(`should record the seed and resume a run exactly`, () => {
+    const run = KDUIDManager({ generator: KDUID([], { seed: 7 }) });
+    const uids = ['a', 'b', 'c', 'd', 'e'].map((key) =>
+      run.generateUIDFor(key)
+    );
+
+    const original = KDUIDManager({ generator: KDUID([], { seed: 7 }) });
+    ['a', 'b', 'c'].forEach((key) => original.generateUIDFor(key));
+    const state = JSON.parse(JSON.stringify(original));
+    expect(state.seed).toEqual({ seed: 7, counter: 12 });
+
+    const resumed = KDUIDManager({ generator: KDUID([], { seed: 7 }) });
+    resumed.fromJSON(state);
+    expect(resumed.generateUIDFor('d')).toBe(uids[3]);
+    expect(resumed.generateUIDFor('e')).toBe(uids[4]);
+  });
+
+  it(`should not seed a manager with a random generator`, () => {
+    const seeded = KDUIDManager({ generator: KDUID([], { seed: 7 }) });
+    seeded.generateUIDFor('a');
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    manager.fromJSON(seeded.toJSON());
+    expect(generator.getSeed()).toBeUndefined();
+    expect(manager.toJSON().seed).toBeUndefined();
+  });
+});
+
+describe('manager weak mode', () => {
+  /**
+   * Replace `WeakRef` and `FinalizationRegistry` with fakes so collection can be
+   * simulated deterministically with `collect(target)`.
+   */
+  const root: any = globalThis;
+  const original = {
+    WeakRef: root.WeakRef,
+    FinalizationRegistry: root.FinalizationRegistry,
+  };
+  const collected = new Set<object>();
+  const registrations: {
+    target: object;
+    held: any;
+    token: object;
+    cleanup: (held: any) => void;
+  }[] = [];
+
+  class FakeWeakRef {
+    constructor(private target: object) {}
+    deref() {
+      return collected.has(this.target) ? undefined : this.target;
+    }
+  }
+  class FakeFinalizationRegistry {
+    constructor(private cleanup: (held: any) => void) {}
+    register(target: object, held: any, token: object) {
+      registrations.push({ target, held, token, cleanup: this.cleanup });
+    }
+    unregister(token: object) {
+      const index = registrations.findIndex((r) => r.token === token);
+      if (index >= 0) registrations.splice(index, 1);
+      return index >= 0;
+    }
+  }
+  const collect = (target: object) => {
+    collected.add(target);
+    registrations
+      .filter((r) => r.target === target)
+      .forEach((r) => r.cleanup(r.held));
+  };
+
+  beforeEach(() => {
+    root.WeakRef = FakeWeakRef;
+    root.FinalizationRegistry = FakeFinalizationRegistry;
+    collected.clear();
+    registrations.length = 0;
+  });
+
+  afterEach(() => {
+    root.WeakRef = original.WeakRef;
+    root.FinalizationRegistry = original.FinalizationRegistry;
+  });
+
+  it(`should manage object and primitive targets`, () => {
+    const manager = KDUIDManager({ weak: true });
+    const entity = { name: 'kd' };
+    const uid = manager.generateUIDFor(entity);
+    const primitive = manager.generateUIDFor('kd');
+
+    expect(manager.getUIDFor(entity)).toBe(uid);
+    expect(manager.getKeyFor(uid)).toBe(entity);
+    expect(manager.getKeyFor(primitive)).toBe('kd');
+    expect(manager.entries()).toEqual([
+      [entity, uid],
+      ['kd', primitive],
+    ]);
+    expect(registrations).toHaveLength(1);
+  });
+
+  it(`should remove entries when their targets are collected`, () => {
+    const onReclaim = jest.fn();
+    const manager = KDUIDManager({ weak: true, onReclaim });
+    const [a, b] = [{ name: 'a' }, { name: 'b' }];
+    const uidA = manager.generateUIDFor(a);
+    const uidB = manager.generateUIDFor(b);
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    collect(a);
+    expect(onReclaim).toHaveBeenCalledWith(uidA);
+    expect(listener).toHaveBeenCalledWith({ type: 'reclaimed', uid: uidA });
+    expect(manager.hasKeyFor(uidA)).toBe(false);
+    expect(manager.uids()).toEqual([uidB]);
+    expect(manager.toJSON().existing).toEqual([uidB]);
+  });
+
+  it(`should skip collected targets before finalizers run`, () => {
+    const manager = KDUIDManager({ weak: true });
+    const entity = { name: 'kd' };
+    const uid = manager.generateUIDFor(entity);
+
+    collected.add(entity);
+    expect(manager.getKeyFor(uid)).toBeUndefined();
+    expect(manager.keys()).toEqual([]);
+  });
+
+  it(`should not reclaim entries that were deleted or regenerated`, () => {
+    const onReclaim = jest.fn();
+    const manager = KDUIDManager({ weak: true, onReclaim });
+    const [a, b] = [{ name: 'a' }, { name: 'b' }];
+    manager.generateUIDFor(a);
+    manager.generateUIDFor(a);
+    manager.generateUIDFor(b);
+    manager.deleteEntryForKey(b);
+
+    expect(registrations).toHaveLength(1);
+    collect(b);
+    expect(onReclaim).not.toHaveBeenCalled();
+    collect(a);
+    expect(onReclaim).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should throw if weak references are unsupported`, () => {
+    root.WeakRef = undefined;
+    expect(() => KDUIDManager({ weak: true })).toThrow(Error);
+    expect(() => KDUIDManager()).not.toThrow();
+  });
+
+  it(`should iterate a non-weak manager without weak references`, () => {
+    delete root.WeakRef;
+    delete root.FinalizationRegistry;
+    const manager = KDUIDManager();
+    const uid = manager.generateUIDFor(undefined);
+    expect(manager.keys()).toEqual([undefined]);
+    expect(manager.entries()).toEqual([[undefined, uid]]);
+    expect(manager.size).toBe(1);
+    expect(Array.from(manager)).toEqual([[undefined, uid]]);
+    expect(manager.setEntries([])).toEqual({ changed: [], invalid: [] });
+    expect(manager.size).toBe(0);
+  });
+});
+
+describe('manager events', () => {
+  it(`should emit added and regenerated events`, () => {
+    const manager = KDUIDManager();
+    const listener = jest.fn();
+    manager.subscribe(listener);
+    const entity = { name: 'kd' };
+    const first = manager.generateUIDFor(entity);
+    const second = manager.generateUIDFor(entity);
+
+    expect(listener.mock.calls).toEqual([
+      [{ type: 'added', key: entity, uid: first }],
+      [{ type: 'regenerated', key: entity, uid: second, previous: first }],
+    ]);
+  });
+
+  it(`should emit deleted and reset events`, () => {
+    const manager = KDUIDManager();
+    const [a, b] = [{ name: 'a' }, { name: 'b' }];
+    const uidA = manager.generateUIDFor(a);
+    const uidB = manager.generateUIDFor(b);
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    manager.deleteEntryForUID(uidA);
+    manager.deleteEntryForKey(b);
+    manager.deleteEntryForKey(b);
+    manager.reset();
+
+    expect(listener.mock.calls).toEqual([
+      [{ type: 'deleted', key: a, uid: uidA }],
+      [{ type: 'deleted', key: b, uid: uidB }],
+      [{ type: 'reset' }],
+    ]);
+  });
+
+  it(`should emit a single entriesReplaced event for setEntries`, () => {
+    const source = KDUIDManager();
+    const uid = source.generateUIDFor('a');
+    const manager = KDUIDManager();
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    manager.setEntries([
+      ['a', uid],
+      ['b', uid],
+    ]);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const event = listener.mock.calls[0][0];
+    expect(event.type).toBe('entriesReplaced');
+    expect(event.entries).toEqual(manager.entries());
+    expect(event.changed).toEqual([['b', manager.getUIDFor('b')]]);
+    expect(event.invalid).toEqual([]);
+  });
+
+  it(`should stop emitting after unsubscribing`, () => {
+    const manager = KDUIDManager();
+    const listener = jest.fn();
+    const unsubscribe = manager.subscribe(listener);
+    manager.generateUIDFor('a');
+    unsubscribe();
+    manager.generateUIDFor('b');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should keep notifying other listeners when one throws`, () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = KDUIDManager();
+    const listener = jest.fn();
+    manager.subscribe(() => {
+      throw new Error('listener');
+    });
+    manager.subscribe(listener);
+    manager.generateUIDFor('a');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe('manager encodings', () => {
+  it(`should look up and delete keys from any form of a uid`, () => {
+    const manager = KDUIDManager();
+    const entity = { name: 'kd' };
+    const uid = manager.generateUIDFor(entity);
+
+    (['upper', 'braced', 'urn', 'base32', 'base58', 'base64url'] as const)
+      .map((encoding) => KDUIDEncode(uid, encoding))
+      .forEach((encoded) => {
+        expect(manager.hasKeyFor(encoded)).toBe(true);
+        expect(manager.getKeyFor(encoded)).toBe(entity);
+      });
+
+    const listener = jest.fn();
+    manager.subscribe(listener);
+    expect(manager.deleteEntryForUID(KDUIDEncode(uid, 'base64url'))).toBe(true);
+    expect(listener).toHaveBeenCalledWith({
+      type: 'deleted',
+      key: entity,
+      uid: uid,
+    });
+    expect(manager.hasKeyFor(uid)).toBe(false);
+  });
+
+  it(`should find uids set in uppercase`, () => {
+    const manager = KDUIDManager();
+    const uid = 'AA97B177-9383-4934-8543-0F91A7A02836';
+    manager.setEntries([['kd', uid]]);
+    expect(manager.getKeyFor(uid.toLowerCase())).toBe('kd');
+    expect(manager.getKeyFor(KDUIDEncode(uid, 'base58'))).toBe('kd');
+  });
+
+  it(`should hold imported uids in their canonical form`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    const uid = KDUID().generate();
+    manager.setEntries([['kd', KDUIDEncode(uid, 'base64url')]]);
+    expect(manager.uids()).toEqual([uid]);
+    expect(manager.getKeyFor(uid)).toBe('kd');
+    expect(generator.getExisting()).toEqual([uid]);
+  });
+});
+
+describe('manager batches', () => {
+  it(`should generate uids for many targets with a single event`, () => {
+    const storage = KDUIDMemoryStorage();
+    const save = jest.spyOn(storage, 'save');
+    const manager = KDUIDManager({ storage });
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    const uids = manager.generateUIDsFor(['a', 'b', 'c']);
+    expect(uids).toEqual(manager.uids());
+    expect(manager.keys()).toEqual(['a', 'b', 'c']);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      type: 'batch',
+      events: ['a', 'b', 'c'].map((key, i) => ({
+        type: 'added',
+        key: key,
+        uid: (uids as string[])[i],
+      })),
+    });
+  });
+
+  it(`should delete many entries with a single generator sync`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator });
+    const uids = manager.generateUIDsFor(['a', 'b', 'c', 'd']) as string[];
+    const release = jest.spyOn(generator, 'deleteExisting');
+
+    expect(manager.deleteEntriesForKeys(['a', 'x'])).toEqual([true, false]);
+    expect(release).toHaveBeenCalledTimes(1);
+    expect(manager.deleteEntriesForUIDs([uids[1], uids[2]])).toEqual([
+      true,
+      true,
+    ]);
+    expect(release).toHaveBeenCalledTimes(2);
+    expect(release).toHaveBeenLastCalledWith([uids[1], uids[2]]);
+    expect(manager.keys()).toEqual(['d']);
+    expect(generator.getExisting()).toEqual([uids[3]]);
+  });
+
+  it(`should sync the generator once for a whole transaction`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator });
+    manager.generateUIDFor('a');
+    const sync = jest.spyOn(generator, 'setExisting');
+
+    manager.transaction(() => {
+      manager.reset();
+      manager.setEntries([['b', KDUID().generate()]]);
+      manager.generateUIDFor('c');
+    });
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(generator.getExisting()).toEqual(manager.uids());
+  });
+
+  it(`should roll back every change if the transaction throws`, () => {
+    const manager = KDUIDManager();
+    const a = { name: 'a' };
+    const uid = manager.generateUIDFor(a);
+    const before = manager.toJSON();
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    expect(() =>
+      manager.transaction(() => {
+        manager.generateUIDFor(a);
+        manager.generateUIDsFor(['b', 'c']);
+        manager.deleteEntryForUID(uid);
+        throw new Error('failed');
+      })
+    ).toThrow('failed');
+
+    expect(manager.entries()).toEqual([[a, uid]]);
+    expect(manager.toJSON()).toEqual(before);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it(`should return the value of the transaction`, () => {
+    const manager = KDUIDManager();
+    expect(manager.transaction(() => manager.generateUIDFor('a'))).toBe(
+      manager.getUIDFor('a')
+    );
+  });
+
+  it(`should reject targets that aren't arrays`, () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = KDUIDManager();
+    expect(manager.generateUIDsFor('a' as any)).toBe(false);
+    expect(manager.deleteEntriesForKeys(undefined)).toBe(false);
+    expect(manager.deleteEntriesForUIDs(null)).toBe(false);
+    error.mockRestore();
+  });
+});
+
+describe('manager imports', () => {
+  const uids = [...new Array(4)].map(() => KDUID().generate());
+
+  it(`should report invalid uids from setEntries`, () => {
+    const manager = KDUIDManager();
+    const result = manager.setEntries([
+      ['a', uids[0]],
+      ['b', 'not-a-uid'],
+      ['c', undefined],
+    ]);
+    expect(result).toEqual({
+      changed: [],
+      invalid: [
+        ['b', 'not-a-uid'],
+        ['c', undefined],
+      ],
+    });
+    expect(manager.entries()).toEqual([['a', uids[0]]]);
+  });
+
+  it(`should keep existing keys when merging`, () => {
+    const manager = KDUIDManager();
+    manager.setEntries([['a', uids[0]]]);
+    const result = manager.importEntries(
+      [
+        ['a', uids[1]],
+        ['b', uids[2]],
+      ],
+      { mode: 'merge' }
+    );
+
+    expect(manager.entries()).toEqual([
+      ['a', uids[0]],
+      ['b', uids[2]],
+    ]);
+    expect(result && result.conflicts).toEqual([
+      {
+        type: 'key',
+        entry: ['a', uids[1]],
+        existing: ['a', uids[0]],
+        resolution: 'keep',
+      },
+    ]);
+    expect(manager.toJSON().existing).toEqual(
+      expect.arrayContaining([uids[0], uids[2]])
+    );
+  });
+
+  it(`should update existing keys when upserting`, () => {
+    const manager = KDUIDManager();
+    manager.setEntries([
+      ['a', uids[0]],
+      ['b', uids[1]],
+    ]);
+    const result = manager.importEntries([['a', uids[2]]], { mode: 'upsert' });
+
+    expect(result).toEqual({ changed: [], invalid: [], conflicts: [] });
+    expect(manager.getUIDFor('a')).toBe(uids[2]);
+    expect(manager.getUIDFor('b')).toBe(uids[1]);
+  });
+
+  it(`should settle duplicate uids by policy`, () => {
+    const run = (policy: 'keep' | 'take' | 'regenerate' | 'reject') => {
+      const manager = KDUIDManager();
+      manager.setEntries([['a', uids[0]]]);
+      const result = manager.importEntries([['b', uids[0]]], {
+        mode: 'merge',
+        onDuplicateUID: policy,
+      });
+      return { manager, result };
+    };
+
+    const keep = run('keep');
+    expect(keep.manager.entries()).toEqual([['a', uids[0]]]);
+    expect(keep.result && keep.result.conflicts[0].type).toBe('uid');
+
+    const take = run('take');
+    expect(take.manager.entries()).toEqual([['b', uids[0]]]);
+
+    const regenerate = run('regenerate');
+    const fresh = regenerate.manager.getUIDFor('b');
+    expect(fresh).not.toBe(uids[0]);
+    expect(regenerate.result && regenerate.result.changed).toEqual([
+      ['b', fresh],
+    ]);
+
+    const reject = run('reject');
+    expect(reject.manager.keys()).toEqual(['a']);
+    expect(reject.result && reject.result.invalid).toEqual([['b', uids[0]]]);
+  });
+
+  it(`should settle duplicate keys within an import by policy`, () => {
+    const manager = KDUIDManager();
+    const entries: [string, string][] = [
+      ['a', uids[0]],
+      ['a', uids[1]],
+    ];
+
+    manager.setEntries(entries);
+    expect(manager.getUIDFor('a')).toBe(uids[1]);
+
+    const result = manager.importEntries(entries, { onDuplicateKey: 'reject' });
+    expect(manager.getUIDFor('a')).toBe(uids[0]);
+    expect(result && result.invalid).toEqual([['a', uids[1]]]);
+
+    manager.importEntries(entries, { onDuplicateKey: 'regenerate' });
+    expect(uids).not.toContain(manager.getUIDFor('a'));
+  });
+
+  it(`should plan a dry run without changing anything`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator });
+    manager.setEntries([['a', uids[0]]]);
+    const listener = jest.fn();
+    manager.subscribe(listener);
+    const existing = generator.getExisting();
+
+    const result = manager.importEntries(
+      [
+        ['b', uids[0]],
+        ['c', 'invalid'],
+      ],
+      { mode: 'merge', dryRun: true }
+    );
+
+    expect(result).toEqual({
+      changed: [['b', uids[0]]],
+      invalid: [['c', 'invalid']],
+      conflicts: [
+        {
+          type: 'uid',
+          entry: ['b', uids[0]],
+          existing: ['a', uids[0]],
+          resolution: 'regenerate',
+        },
+      ],
+    });
+    expect(manager.entries()).toEqual([['a', uids[0]]]);
+    expect(generator.getExisting()).toEqual(existing);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it(`should plan the same conflicts as the import`, () => {
+    const manager = KDUIDManager();
+    const entries: [string, string][] = [
+      ['a', uids[0]],
+      ['b', uids[0]],
+      ['c', uids[0]],
+    ];
+    const holders = (result: any) =>
+      result.conflicts.map(({ existing }) => existing[0]);
+    const planned = manager.importEntries(entries, { dryRun: true });
+    expect(holders(planned)).toEqual(['a', 'a']);
+    expect(holders(manager.importEntries(entries))).toEqual(['a', 'a']);
+  });
+
+  it(`should reject unknown modes`, () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = KDUIDManager();
+    expect(manager.importEntries([], { mode: 'append' as any })).toBe(false);
+    expect(manager.importEntries(undefined)).toBe(false);
+    error.mockRestore();
+  });
+});
+
+describe('manager metadata', () => {
+  const clock = () => {
+    let now = 1000;
+    return {
+      now: () => now,
+      advance: (ms: number) => {
+        now += ms;
+      },
+    };
+  };
+
+  it(`should record metadata, creation and access times`, () => {
+    const time = clock();
+    const manager = KDUIDManager<string, string, { role: string }>({
+      clock: time.now,
+    });
+    const uid = manager.generateUIDFor('a', { meta: { role: 'admin' } });
+    expect(manager.getMetaFor(uid)).toEqual({
+      meta: { role: 'admin' },
+      created: 1000,
+      accessed: 1000,
+    });
+
+    time.advance(50);
+    manager.getUIDFor('a');
+    expect(manager.getMetaFor(uid).accessed).toBe(1050);
+    time.advance(50);
+    manager.getKeyFor(KDUIDEncode(uid, 'base64url'));
+    expect(manager.getMetaFor(uid).accessed).toBe(1100);
+    time.advance(50);
+    manager.hasKeyFor(uid);
+    manager.getMetaFor(uid).accessed = 0;
+    expect(manager.getMetaFor(uid)).toEqual({
+      meta: { role: 'admin' },
+      created: 1000,
+      accessed: 1100,
+    });
+    expect(manager.getMetaFor(KDUID().generate())).toBeUndefined();
+  });
+
+  it(`should filter entries with entriesWhere`, () => {
+    const manager = KDUIDManager<string, string, { role: string }>();
+    const a = manager.generateUIDFor('a', { meta: { role: 'admin' } });
+    manager.generateUIDFor('b', { meta: { role: 'user' } });
+    const c = manager.generateUIDFor('c', { meta: { role: 'admin' } });
+    expect(
+      manager.entriesWhere((key, uid, meta) => meta.meta.role === 'admin')
+    ).toEqual([
+      ['a', a],
+      ['c', c],
+    ]);
+  });
+
+  it(`should drop expired entries on lookup`, () => {
+    const time = clock();
+    const manager = KDUIDManager({ clock: time.now, ttl: 100 });
+    const events = [];
+    manager.subscribe((event) => events.push(event));
+    const a = manager.generateUIDFor('a');
+    const b = manager.generateUIDFor('b', { ttl: 0 });
+    const c = manager.generateUIDFor('c', { ttl: 500 });
+    expect(manager.getMetaFor(a).expires).toBe(1100);
+    expect(manager.getMetaFor(b).expires).toBeUndefined();
+
+    time.advance(100);
+    expect(manager.uids()).toEqual([b, c]);
+    expect(manager.toJSON().entries).toEqual([
+      ['b', b],
+      ['c', c],
+    ]);
+    expect(manager.getUIDFor('a')).toBeUndefined();
+    expect(events[events.length - 1]).toEqual({
+      type: 'expired',
+      key: 'a',
+      uid: a,
+    });
+    expect(manager.hasKeyFor(a)).toBe(false);
+
+    const fresh = manager.generateUIDFor('a');
+    expect(events[events.length - 1]).toEqual({
+      type: 'added',
+      key: 'a',
+      uid: fresh,
+    });
+  });
+
+  it(`should sweep expired entries in one batch`, () => {
+    const time = clock();
+    const generator = KDUID();
+    const manager = KDUIDManager({ clock: time.now, generator: generator });
+    const events = [];
+    const a = manager.generateUIDFor('a', { ttl: 10 });
+    const b = manager.generateUIDFor('b', { ttl: 20 });
+    const c = manager.generateUIDFor('c');
+    manager.subscribe((event) => events.push(event));
+
+    expect(manager.sweep()).toEqual([]);
+    time.advance(20);
+    expect(manager.sweep()).toEqual([
+      ['a', a],
+      ['b', b],
+    ]);
+    expect(manager.entries()).toEqual([['c', c]]);
+    expect(generator.getExisting()).toEqual([c]);
+    expect(events).toEqual([
+      {
+        type: 'batch',
+        events: [
+          { type: 'expired', key: 'a', uid: a },
+          { type: 'expired', key: 'b', uid: b },
+        ],
+      },
+    ]);
+  });
+
+  it(`should keep metadata through imports, rollbacks and snapshots`, () => {
+    const time = clock();
+    const manager = KDUIDManager({ clock: time.now });
+    const a = manager.generateUIDFor('a', { meta: 1, ttl: 1000 });
+    time.advance(10);
+    manager.importEntries([['b', KDUID().generate()]], { mode: 'merge' });
+    expect(manager.getMetaFor(a)).toEqual({
+      meta: 1,
+      created: 1000,
+      accessed: 1000,
+      expires: 2000,
+    });
+
+    expect(() =>
+      manager.transaction(() => {
+        manager.deleteEntryForKey('a');
+        throw new Error('rollback');
+      })
+    ).toThrow('rollback');
+    expect(manager.getMetaFor(a).meta).toBe(1);
+
+    const state = JSON.parse(JSON.stringify(manager));
+    expect(state.meta[a]).toEqual(manager.getMetaFor(a));
+    const restored = KDUIDManager({ clock: time.now });
+    restored.fromJSON(state);
+    expect(restored.getMetaFor(a)).toEqual(manager.getMetaFor(a));
+
+    time.advance(1000);
+    expect(restored.keys()).toEqual(['b']);
+  });
+
+  it(`should persist metadata to storage`, () => {
+    const time = clock();
+    const storage = KDUIDMemoryStorage();
+    const manager = KDUIDManager({ clock: time.now, storage: storage });
+    const uid = manager.generateUIDFor('a', { meta: 'x' });
+    const restored = KDUIDManager({ storage: storage });
+    expect(restored.getMetaFor(uid)).toEqual({
+      meta: 'x',
+      created: 1000,
+      accessed: 1000,
+    });
+  });
+
+  it(`should reject an invalid ttl option`, () => {
+    expect(() => KDUIDManager({ ttl: -1 })).toThrow(RangeError);
+  });
+});
+
+describe('manager tombstones', () => {
+  it(`should retire deleted uids so they are never reissued`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator, tombstones: true });
+    const [a, b, c, d] = manager.generateUIDsFor([
+      'a',
+      'b',
+      'c',
+      'd',
+    ]) as string[];
+    const b2 = manager.generateUIDFor('b');
+    manager.deleteEntryForKey('a');
+    manager.deleteEntryForUID(KDUIDEncode(c, 'base64url'));
+    expect(manager.isRetired(a)).toBe(true);
+    expect(manager.isRetired(KDUIDEncode(b, 'upper'))).toBe(true);
+    expect(manager.isRetired(c)).toBe(true);
+    expect(manager.isRetired(d)).toBe(false);
+
+    manager.reset();
+    expect(manager.isRetired(d)).toBe(true);
+    expect(manager.isRetired(b2)).toBe(true);
+    expect(generator.getExisting().sort()).toEqual([a, b, b2, c, d].sort());
+
+    const result = manager.setEntries([['a', a]]);
+    expect(result && result.changed[0][1]).not.toBe(a);
+  });
+
+  it(`should not keep tombstones unless enabled`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    const uid = manager.generateUIDFor('a');
+    manager.deleteEntryForKey('a');
+    expect(manager.isRetired(uid)).toBe(false);
+    expect(generator.getExisting()).toEqual([]);
+    expect(manager.toJSON().tombstones).toBeUndefined();
+  });
+
+  it(`should save and restore tombstones`, () => {
+    let now = 100;
+    const manager = KDUIDManager({ tombstones: true, clock: () => now });
+    const a = manager.generateUIDFor('a');
+    manager.deleteEntryForKey('a');
+    now = 200;
+    const b = manager.generateUIDFor('b');
+    manager.deleteEntryForKey('b');
+    const state = JSON.parse(JSON.stringify(manager));
+    expect(state.tombstones).toEqual({ [a]: 100, [b]: 200 });
+
+    const generator = KDUID();
+    const restored = KDUIDManager({ generator: generator, tombstones: true });
+    restored.fromJSON(state);
+    expect(restored.isRetired(a)).toBe(true);
+    expect(restored.isRetired(b)).toBe(true);
+    expect(generator.getExisting().sort()).toEqual([a, b].sort());
+  });
+
+  it(`should purge old tombstones`, () => {
+    let now = 100;
+    const generator = KDUID();
+    const manager = KDUIDManager({
+      generator: generator,
+      tombstones: true,
+      clock: () => now,
+    });
+    const a = manager.generateUIDFor('a');
+    manager.deleteEntryForKey('a');
+    now = 200;
+    const b = manager.generateUIDFor('b');
+    manager.deleteEntryForKey('b');
+
+    expect(manager.purgeTombstones(200)).toEqual([a]);
+    expect(manager.isRetired(a)).toBe(false);
+    expect(generator.getExisting()).toEqual([b]);
+    expect(manager.purgeTombstones()).toEqual([b]);
+    expect(generator.getExisting()).toEqual([]);
+  });
+
+  it(`should roll back tombstones with a transaction`, () => {
+    const manager = KDUIDManager({ tombstones: true });
+    const uid = manager.generateUIDFor('a');
+    expect(() =>
+      manager.transaction(() => {
+        manager.deleteEntryForKey('a');
+        throw new Error('rollback');
+      })
+    ).toThrow('rollback');
+    expect(manager.isRetired(uid)).toBe(false);
+    expect(manager.getUIDFor('a')).toBe(uid);
+  });
+});
+
+describe('manager content mode', () => {
+  it(`should give equal values the same uid`, () => {
+    const manager = KDUIDManager({ content: true });
+    const uid = manager.generateUIDFor({ a: 1, b: [true, 'x'] });
+    expect(manager.generateUIDFor({ b: [true, 'x'], a: 1 })).toBe(uid);
+    expect(manager.getUIDFor({ b: [true, 'x'], a: 1 })).toBe(uid);
+    expect(manager.getUIDFor({ a: '1', b: [true, 'x'] })).toBeUndefined();
+    expect(manager.entries().length).toBe(1);
+    expect(KDUID().validate(uid, 5)).toEqual([uid]);
+
+    const other = KDUIDManager({ content: true });
+    expect(other.generateUIDFor({ b: [true, 'x'], a: 1 })).toBe(uid);
+
+    expect(manager.deleteEntryForKey({ a: 1, b: [true, 'x'] })).toBe(true);
+    expect(manager.entries()).toEqual([]);
+  });
+
+  it(`should derive uids in a namespace, version or hash`, () => {
+    const namespace = KDUID().generate();
+    const value = ['a', 1];
+    const v5 = KDUIDManager({ content: true }).generateUIDFor(value);
+    const scoped = KDUIDManager({ content: { namespace: namespace } });
+    expect(scoped.generateUIDFor(value)).toBe(
+      KDUID().generate({ version: 5, namespace: namespace, name: '["a",1]' })
+    );
+    expect(scoped.generateUIDFor(value)).not.toBe(v5);
+
+    const v3 = KDUIDManager({ content: { version: 3 } });
+    expect(KDUID().validate(v3.generateUIDFor(value), 3).length).toBe(1);
+
+    const fixed = '0b3a5d4c-1f2e-4a6b-9c8d-7e6f5a4b3c2d';
+    const hashed = KDUIDManager({ content: { hash: () => fixed } });
+    expect(hashed.generateUIDFor(value)).toBe(fixed);
+    const broken = KDUIDManager({ content: { hash: () => 'x' } });
+    expect(() => broken.generateUIDFor(value)).toThrow(TypeError);
+  });
+
+  it(`should restore equal values with the same uids`, () => {
+    const manager = KDUIDManager({ content: true });
+    const uid = manager.generateUIDFor({ id: 1 });
+    const state = JSON.parse(JSON.stringify(manager));
+
+    const restored = KDUIDManager({ content: true });
+    restored.fromJSON(state);
+    expect(restored.getUIDFor({ id: 1 })).toBe(uid);
+    expect(restored.generateUIDFor({ id: 1 })).toBe(uid);
+  });
+
+  it(`should unify and rederive imported entries`, () => {
+    const manager = KDUIDManager({ content: true });
+    const uid = manager.generateUIDFor({ id: 1 });
+    const other = KDUID().generate();
+    const result = manager.importEntries(
+      [
+        [{ id: 1 }, uid],
+        [{ id: 2 }, other],
+        [[NaN], other],
+      ],
+      { mode: 'merge' }
+    );
+    expect(result && result.invalid.length).toBe(1);
+    expect(result && result.changed.length).toBe(1);
+    expect(result && result.changed[0][1]).toBe(
+      KDUIDManager({ content: true }).generateUIDFor({ id: 2 })
+    );
+    expect(manager.entries().length).toBe(2);
+  });
+
+  it(`should reject weak mode and tombstones`, () => {
+    expect(() => KDUIDManager({ content: true, weak: true })).toThrow();
+    expect(() => KDUIDManager({ content: true, tombstones: true })).toThrow();
+  });
+});
+
+describe('manager iteration', () => {
+  it(`should iterate, count and search entries`, () => {
+    let now = 0;
+    const manager = KDUIDManager({ clock: () => now });
+    const [a, b] = manager.generateUIDsFor(['a', 'b']) as string[];
+    const c = manager.generateUIDFor('c', { ttl: 10 });
+    expect(manager.size).toBe(3);
+    expect([...manager]).toEqual([
+      ['a', a],
+      ['b', b],
+      ['c', c],
+    ]);
+
+    now = 10;
+    expect(manager.size).toBe(2);
+    const seen: string[] = [];
+    manager.forEach((key, uid) => seen.push(`${key}:${uid}`));
+    expect(seen).toEqual([`a:${a}`, `b:${b}`]);
+
+    expect(manager.find((key) => key === 'b')).toEqual(['b', b]);
+    expect(manager.find((key, uid) => uid === c)).toBeUndefined();
+    expect(manager.filter((key) => key !== 'a')).toEqual([['b', b]]);
+  });
+
+  it(`should page through entries with a cursor`, () => {
+    const manager = KDUIDManager();
+    const uids = manager.generateUIDsFor(['a', 'b', 'c', 'd', 'e']) as string[];
+    const first = manager.page({ limit: 2 });
+    expect(first && first.entries).toEqual([
+      ['a', uids[0]],
+      ['b', uids[1]],
+    ]);
+
+    // the cursor survives deleting the entry it points at
+    manager.deleteEntryForKey('b');
+    const second = manager.page({ cursor: first && first.cursor, limit: 2 });
+    expect(second && second.entries).toEqual([
+      ['c', uids[2]],
+      ['d', uids[3]],
+    ]);
+    const last = manager.page({ cursor: second && second.cursor, limit: 2 });
+    expect(last).toEqual({ entries: [['e', uids[4]]] });
+
+    expect(manager.page()).toEqual({ entries: manager.entries() });
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(manager.page({ limit: 0 })).toBe(false);
+    expect(manager.page({ cursor: 'not a cursor' })).toBe(false);
+    expect(error).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+  });
+
+  it(`should keep cursors across a rolled back transaction`, () => {
+    const manager = KDUIDManager();
+    const uids = manager.generateUIDsFor(['a', 'b', 'c']) as string[];
+    const first = manager.page({ limit: 1 });
+    expect(() =>
+      manager.transaction(() => {
+        manager.deleteEntryForKey('a');
+        throw new Error('rollback');
+      })
+    ).toThrow('rollback');
+    const rest = manager.page({ cursor: first && first.cursor });
+    expect(rest && rest.entries).toEqual([
+      ['b', uids[1]],
+      ['c', uids[2]],
+    ]);
+  });
+
+  it(`should keep cursors across imports and repairs`, () => {
+    const manager = KDUIDManager();
+    const uids = manager.generateUIDsFor(['a', 'b', 'c', 'd']) as string[];
+    const first = manager.page({ limit: 2 });
+    const added = KDUID().generate();
+    manager.importEntries([['e', added]], { mode: 'merge' });
+    manager.importEntries([[undefined, KDUID().generate()]], {
+      mode: 'merge',
+    });
+    manager.repair();
+    const rest = manager.page({ cursor: first && first.cursor });
+    expect(rest && rest.entries).toEqual([
+      ['c', uids[2]],
+      ['d', uids[3]],
+      ['e', added],
+    ]);
+  });
+
+  it(`should take immutable snapshots and diff them`, () => {
+    const manager = KDUIDManager();
+    const [a, b] = manager.generateUIDsFor(['a', 'b']) as string[];
+    const before = manager.snapshot();
+    expect(before.size).toBe(2);
+    expect(Object.isFrozen(before.entries)).toBe(true);
+    expect(Object.isFrozen(before.entries[0])).toBe(true);
+
+    const b2 = manager.generateUIDFor('b');
+    const c = manager.generateUIDFor('c');
+    manager.deleteEntryForKey('a');
+    const after = manager.snapshot();
+    expect(after.entries[0]).toBe(manager.snapshot().entries[0]);
+    expect(before.entries.length).toBe(2);
+
+    expect(before.diff(after)).toEqual({
+      added: [['c', c]],
+      removed: [['a', a]],
+      changed: [{ key: 'b', uid: b2, previous: b }],
+    });
+    expect(after.diff(manager.snapshot())).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+});
+
+describe('manager integrity', () => {
+  /**
+   * A sync transport that delivers hand-written messages, eg. from a faulty peer.
+   */
+  const RawTransport = () => {
+    const listeners: ((event: { data: any }) => void)[] = [];
+    return {
+      postMessage: () => {},
+      addEventListener: (_: 'message', listener: (event: any) => void) =>
+        listeners.push(listener),
+      send: (message: any) =>
+        listeners.forEach((listener) =>
+          listener({ data: { kduid: 1, from: 'faulty', ...message } })
+        ),
+    };
+  };
+
+  it(`should report nothing for a consistent manager`, () => {
+    const manager = KDUIDManager();
+    manager.generateUIDsFor(['a', 'b']);
+    const report = manager.verify();
+    expect(report.ok).toBe(true);
+    expect(manager.repair()).toEqual({
+      regenerated: [],
+      dropped: [],
+      claimed: [],
+      released: [],
+      removed: [],
+    });
+  });
+
+  it(`should verify and repair without weak references`, () => {
+    const root: any = globalThis;
+    const original = root.WeakRef;
+    delete root.WeakRef;
+    try {
+      const manager = KDUIDManager();
+      manager.generateUIDsFor(['a', 'b']);
+      expect(manager.verify().ok).toBe(true);
+      expect(manager.repair()).toBeTruthy();
+    } finally {
+      root.WeakRef = original;
+    }
+  });
+
+  it(`should claim uids the generator lost`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    const uid = manager.generateUIDFor('a');
+    generator.deleteExisting(uid);
+    expect(manager.verify().missing).toEqual([uid]);
+
+    const result = manager.repair();
+    expect(result && result.claimed).toEqual([uid]);
+    expect(generator.hasExisting(uid)).toBe(true);
+    expect(manager.getUIDFor('a')).toBe(uid);
+    expect(manager.verify().ok).toBe(true);
+  });
+
+  it(`should regenerate or drop duplicate and malformed uids`, () => {
+    const transport = RawTransport();
+    const manager = KDUIDManager({ sync: transport });
+    const uid = manager.generateUIDFor('a');
+    transport.send({
+      type: 'set',
+      key: 'b',
+      uid: uid.toUpperCase(),
+      stamp: [9, 'faulty'],
+    });
+    transport.send({
+      type: 'set',
+      key: 'c',
+      uid: 'nope',
+      stamp: [10, 'faulty'],
+    });
+
+    const report = manager.verify();
+    expect(report.ok).toBe(false);
+    expect(report.duplicates).toEqual([
+      {
+        uid: uid,
+        entries: [
+          ['a', uid],
+          ['b', uid],
+        ],
+      },
+    ]);
+    expect(report.malformed).toEqual([['c', 'nope']]);
+
+    const listener = jest.fn();
+    manager.subscribe(listener);
+    const result = manager.repair();
+    // the reverse index points at the later key, which keeps the uid
+    expect(result && result.regenerated.map(({ key }) => key)).toEqual([
+      'a',
+      'c',
+    ]);
+    expect(manager.getUIDFor('b')).toBe(uid);
+    expect(manager.getUIDFor('a')).not.toBe(uid);
+    expect(KDUID().validate(manager.getUIDFor('c')).length).toBe(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'entriesReplaced' })
+    );
+    expect(manager.verify().ok).toBe(true);
+
+    const dropping = KDUIDManager({ sync: transport });
+    transport.send({
+      type: 'set',
+      key: 'd',
+      uid: 'nope',
+      stamp: [11, 'faulty'],
+    });
+    const dropped = dropping.repair({ entries: 'drop' });
+    expect(dropped && dropped.dropped).toEqual([['d', 'nope']]);
+    expect(dropping.size).toBe(0);
+  });
+
+  it(`should drop entries held by an undefined key`, () => {
+    const generator = KDUID();
+    const manager = KDUIDManager({ generator: generator });
+    const uid = KDUID().generate();
+    manager.setEntries([[undefined, uid]]);
+    expect(manager.verify().invalidKeys).toEqual([[undefined, uid]]);
+
+    const result = manager.repair();
+    expect(result && result.dropped).toEqual([[undefined, uid]]);
+    expect(manager.size).toBe(0);
+    expect(generator.hasExisting(uid)).toBe(false);
+  });
+
+  it(`should rederive the uids of changed content keys`, () => {
+    const manager = KDUIDManager({ content: true });
+    const value = { id: 1 };
+    const uid = manager.generateUIDFor(value);
+    value.id = 2;
+    expect(manager.verify().invalidKeys).toEqual([[value, uid]]);
+
+    const result = manager.repair();
+    const fresh = KDUIDManager({ content: true }).generateUIDFor({ id: 2 });
+    expect(result && result.regenerated).toEqual([
+      { key: value, uid: fresh, previous: uid },
+    ]);
+    expect(manager.getUIDFor({ id: 2 })).toBe(fresh);
+    expect(manager.getUIDFor({ id: 1 })).toBeUndefined();
+    expect(manager.verify().ok).toBe(true);
+  });
+
+  it(`should release malformed and stale generator values`, () => {
+    const stale = KDUID().generate();
+    const generator = KDUID(['nope', stale]);
+    const manager = KDUIDManager({ generator: generator });
+    const uid = manager.generateUIDFor('a');
+    const report = manager.verify();
+    expect(report.malformedExisting).toEqual(['nope']);
+    expect(report.stale).toEqual([stale]);
+
+    const kept = manager.repair();
+    expect(kept && kept.released).toEqual(['nope']);
+    expect(generator.getExisting()).toEqual([stale, uid]);
+    expect(manager.verify().ok).toBe(true);
+
+    const released = manager.repair({ stale: 'release' });
+    expect(released && released.released).toEqual([stale]);
+    expect(generator.getExisting()).toEqual([uid]);
+  });
+
+  it(`should reject an unknown policy`, () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = KDUIDManager();
+    expect(manager.repair({ entries: 'keep' as any })).toBe(false);
+    expect(manager.repair({ stale: 'drop' as any })).toBe(false);
+    expect(errors).toHaveBeenCalledTimes(2);
+    errors.mockRestore();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @file KDUIDManager.types.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Type-level tests for KDUIDManager.ts. The assertions are checked by the
+ * compiler; `@ts-expect-error` fails the type-check if a line stops erroring.
+ */
+
+import {
+  KDUIDManager,
+  KDUIDManagerEvent,
+  KDUIDSetEntriesResult,
+  Uid,
+} from '../src/module/dev/KDUIDManager';
+import { KDUIDSyncTransport } from '../src/module/dev/KDUIDSync';
+
+/**
+ * Assert the exact type of an expression. `expectType<string>(value)` fails to
+ * compile if `value` is wider or narrower than `string`.
+ */
+type Exact<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+const expectType = <T>() => <V>(
+  value: V & (Exact<T, V> extends true ? unknown : never)
+) => value;
+
+type User = { name: string };
+type Doc = { title: string };
+
+describe('manager types', () => {
+  it(`should default to any keys and string uids`, () => {
+    const manager = KDUIDManager();
+    const uid = manager.generateUIDFor({});
+    expectType<string>()(uid);
+    expectType<any[]>()(manager.keys());
+    expectType<[any, string][]>()(manager.entries());
+  });
+
+  it(`should type keys and branded uids`, () => {
+    const users = KDUIDManager<User, Uid<'User'>>();
+    const user: User = { name: 'kd' };
+    const uid = users.generateUIDFor(user);
+
+    expectType<Uid<'User'>>()(uid);
+    expectType<User | undefined>()(users.getKeyFor(uid));
+    expectType<Uid<'User'> | undefined>()(users.getUIDFor(user));
+    expectType<User[]>()(users.keys());
+    expectType<Uid<'User'>[]>()(users.uids());
+    expectType<[User, Uid<'User'>][]>()(users.entries());
+    expectType<[User, Uid<'User'>][]>()([...users]);
+    expectType<[User, Uid<'User'>] | undefined>()(users.find(() => true));
+    expectType<ReadonlyArray<readonly [User, Uid<'User'>]>>()(
+      users.snapshot().entries
+    );
+
+    // @ts-expect-error keys must be users
+    users.generateUIDFor({ title: 'doc' });
+    // @ts-expect-error plain strings are not branded uids
+    users.getKeyFor('AA97B177-9383-4934-8543-0F91A7A02836');
+  });
+
+  it(`should not mix uids from different managers`, () => {
+    const users = KDUIDManager<User, Uid<'User'>>();
+    const docs = KDUIDManager<Doc, Uid<'Document'>>();
+    const uid = users.generateUIDFor({ name: 'kd' });
+
+    // @ts-expect-error user uids don't identify documents
+    docs.getKeyFor(uid);
+    // @ts-expect-error user uids don't identify documents
+    docs.deleteEntryForUID(uid);
+    expect(docs.hasKeyFor(docs.generateUIDFor({ title: 'doc' }))).toBe(true);
+  });
+
+  it(`should type setEntries results and events`, () => {
+    const users = KDUIDManager<User, Uid<'User'>>();
+    const result = users.setEntries([[{ name: 'kd' }, 'not-a-uid']]);
+    expectType<KDUIDSetEntriesResult<User, Uid<'User'>> | false>()(result);
+
+    users.subscribe((event) => {
+      expectType<KDUIDManagerEvent<User, Uid<'User'>>>()(event);
+      if (event.type === 'regenerated') {
+        expectType<User>()(event.key);
+        expectType<Uid<'User'>>()(event.previous);
+      }
+    });
+  });
+
+  it(`should type key codecs`, () => {
+    const users = KDUIDManager<User, Uid<'User'>>();
+    const state = users.toJSON({
+      encode: (user) => user.name,
+      decode: (name: string) => ({ name }),
+    });
+    expectType<[string, string][]>()(state.entries);
+
+    // @ts-expect-error codecs must encode users
+    users.toJSON({ encode: (doc: Doc) => doc.title, decode: () => undefined });
+  });
+
+  it(`should accept a BroadcastChannel as a sync transport`, () => {
+    const connect = (channel: BroadcastChannel): KDUIDSyncTransport => channel;
+    expect(typeof connect).toBe('function');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @file KDUIDReact.spec.tsx
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for KDUIDReact.tsx, run under jsdom. Requires `react` and `react-dom`.
+ */
+
+import React, { StrictMode } from 'react';
+import { createRoot, hydrateRoot } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { act } from 'react-dom/test-utils';
+import { KDUIDManager } from '../src/module/dev/KDUIDManager';
+import {
+  KDUIDManagerProvider,
+  KDUIDServerIds,
+  useUID,
+  useUIDManager,
+} from '../src/module/dev/KDUIDReact';
+
+// lets `act` flush updates outside a test renderer
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+/**
+ * Wait for the deferred releases.
+ */
+const releases = () =>
+  act(
+    () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+  );
+
+const Field = (props: { target?: any }) => {
+  const uid = useUID(props.target);
+  return <input id={uid} />;
+};
+
+const render = async (element: React.ReactElement) => {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  await act(async () => root.render(element));
+  return { container, root };
+};
+
+const ids = (container: Element) =>
+  Array.from(container.querySelectorAll('input')).map((input) => input.id);
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('react useUID', () => {
+  it(`should keep a uid per instance across renders`, async () => {
+    const manager = KDUIDManager();
+    const app = (count: number) => (
+      <KDUIDManagerProvider manager={manager}>
+        {Array.from({ length: count }, (_, i) => (
+          <Field key={i} />
+        ))}
+      </KDUIDManagerProvider>
+    );
+    const { container, root } = await render(app(2));
+    const [first, second] = ids(container);
+    expect(first).not.toBe(second);
+    expect(manager.uids()).toEqual([first, second]);
+
+    await act(async () => root.render(app(2)));
+    expect(ids(container)).toEqual([first, second]);
+
+    await act(async () => root.render(app(1)));
+    await releases();
+    expect(manager.uids()).toEqual([first]);
+
+    await act(async () => root.unmount());
+    await releases();
+    expect(manager.size).toBe(0);
+  });
+
+  it(`should share the uid of a target until every user unmounts`, async () => {
+    const manager = KDUIDManager();
+    const user = { name: 'ada' };
+    const app = (count: number) => (
+      <KDUIDManagerProvider manager={manager}>
+        {Array.from({ length: count }, (_, i) => (
+          <Field key={i} target={user} />
+        ))}
+      </KDUIDManagerProvider>
+    );
+    const { container, root } = await render(app(2));
+    const uid = manager.getUIDFor(user);
+    expect(ids(container)).toEqual([uid, uid]);
+
+    await act(async () => root.render(app(1)));
+    await releases();
+    expect(manager.getUIDFor(user)).toBe(uid);
+
+    await act(async () => root.render(app(0)));
+    await releases();
+    expect(manager.hasUIDFor(user)).toBe(false);
+  });
+
+  it(`should survive StrictMode without leaking entries`, async () => {
+    const manager = KDUIDManager({ tombstones: true });
+    const { container } = await render(
+      <StrictMode>
+        <KDUIDManagerProvider manager={manager}>
+          <Field />
+          <Field />
+        </KDUIDManagerProvider>
+      </StrictMode>
+    );
+    await releases();
+    expect(manager.uids()).toEqual(ids(container));
+    expect(manager.size).toBe(2);
+  });
+
+  it(`should use a default manager outside a provider`, async () => {
+    let manager;
+    const Probe = () => {
+      manager = useUIDManager();
+      return <Field />;
+    };
+    const { container } = await render(<Probe />);
+    expect(manager.getKeyFor(ids(container)[0])).toBeDefined();
+  });
+
+  it(`should require a provider on the server`, () => {
+    const server = jest
+      .spyOn(globalThis as any, 'document', 'get')
+      .mockReturnValue(undefined);
+    try {
+      expect(() => renderToString(<Field />)).toThrow(Error);
+      const manager = KDUIDManager();
+      renderToString(
+        <KDUIDManagerProvider manager={manager}>
+          <Field />
+        </KDUIDManagerProvider>
+      );
+      expect(manager.size).toBe(1);
+    } finally {
+      server.mockRestore();
+    }
+  });
+});
+
+describe('react hydration', () => {
+  it(`should replay the uids rendered on the server`, async () => {
+    const App = () => (
+      <>
+        <Field />
+        <Field />
+      </>
+    );
+    const server = KDUIDManager();
+    const html = renderToString(
+      <KDUIDManagerProvider manager={server}>
+        <App />
+      </KDUIDManagerProvider>
+    );
+    const sent = JSON.parse(JSON.stringify(KDUIDServerIds(server)));
+
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    document.body.appendChild(container);
+    const rendered = ids(container);
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const client = KDUIDManager();
+    await act(async () => {
+      hydrateRoot(
+        container,
+        <KDUIDManagerProvider manager={client} ids={sent}>
+          <App />
+        </KDUIDManagerProvider>
+      );
+    });
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+    expect(ids(container)).toEqual(rendered);
+    expect(client.uids()).toEqual(rendered);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @file KDUIDRegistry.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for KDUIDRegistry.ts
+ */
+
+import { KDUID } from '../src/module/dev/KDUID';
+import { KDUIDEncode } from '../src/module/dev/KDUIDEncoding';
+import { KDUIDSeededRandom } from '../src/module/dev/KDUIDRandom';
+import { KDUIDRegistry } from '../src/module/dev/KDUIDRegistry';
+
+describe('registry namespaces', () => {
+  it(`should create each namespace once`, () => {
+    const registry = KDUIDRegistry();
+    const users = registry.namespace('users');
+    expect(registry.namespace('users')).toBe(users);
+    expect(registry.has('users')).toBe(true);
+    expect(registry.has('documents')).toBe(false);
+    registry.namespace('documents');
+    expect(registry.names()).toEqual(['users', 'documents']);
+  });
+
+  it(`should never issue the same uid to two namespaces`, () => {
+    // two generators with the same seed produce the same sequence, so only a shared
+    // collision store keeps them apart
+    const registry = KDUIDRegistry({
+      generator: { random: KDUIDSeededRandom(42) },
+    });
+    const users = registry.namespace('users');
+    const documents = registry.namespace('documents');
+    const uids = [...new Array(50)].map((_, i) => [
+      users.generateUIDFor(`user${i}`),
+      documents.generateUIDFor(`doc${i}`),
+    ]);
+    const flat = uids.reduce((acc, pair) => [...acc, ...pair], []);
+    expect(new Set(flat).size).toBe(flat.length);
+  });
+
+  it(`should regenerate imported uids owned by another namespace`, () => {
+    const registry = KDUIDRegistry();
+    const users = registry.namespace('users');
+    const documents = registry.namespace('documents');
+    const uid = users.generateUIDFor('kd');
+
+    const result = documents.setEntries([['readme', uid]]);
+    expect(result && result.changed).toHaveLength(1);
+    expect(documents.getUIDFor('readme')).not.toBe(uid);
+    expect(registry.ownerOf(uid)).toBe('users');
+  });
+});
+
+describe('registry lookup', () => {
+  it(`should find the namespace and key for a uid in any form`, () => {
+    const registry = KDUIDRegistry();
+    const users = registry.namespace('users');
+    const documents = registry.namespace('documents');
+    const user = { name: 'kd' };
+    const uid = users.generateUIDFor(user);
+    const docUid = documents.generateUIDFor('readme');
+
+    expect(registry.ownerOf(uid)).toBe('users');
+    expect(registry.ownerOf(KDUIDEncode(docUid, 'base58'))).toBe('documents');
+    expect(registry.getKeyFor(KDUIDEncode(uid, 'upper'))).toEqual({
+      namespace: 'users',
+      key: user,
+    });
+    expect(registry.getKeyFor(docUid)).toEqual({
+      namespace: 'documents',
+      key: 'readme',
+    });
+    expect(registry.ownerOf('aa97b177-9383-4934-8543-0f91a7a02836')).toBe(
+      undefined
+    );
+  });
+
+  it(`should release uids when entries are deleted`, () => {
+    const registry = KDUIDRegistry();
+    const users = registry.namespace('users');
+    const uid = users.generateUIDFor('kd');
+    users.deleteEntryForKey('kd');
+    expect(registry.ownerOf(uid)).toBeUndefined();
+    expect(registry.getKeyFor(uid)).toBeUndefined();
+  });
+});
+
+describe('registry reset', () => {
+  it(`should reset a single namespace`, () => {
+    const registry = KDUIDRegistry();
+    const users = registry.namespace('users');
+    const documents = registry.namespace('documents');
+    const userUid = users.generateUIDFor('kd');
+    const docUid = documents.generateUIDFor('readme');
+
+    expect(registry.reset('users')).toBe(true);
+    expect(users.entries()).toEqual([]);
+    expect(registry.ownerOf(userUid)).toBeUndefined();
+    expect(documents.getKeyFor(docUid)).toBe('readme');
+    expect(registry.ownerOf(docUid)).toBe('documents');
+  });
+
+  it(`should reset every namespace`, () => {
+    const registry = KDUIDRegistry();
+    registry.namespace('users').generateUIDFor('kd');
+    registry.namespace('documents').generateUIDFor('readme');
+    registry.reset();
+    expect(registry.namespace('users').entries()).toEqual([]);
+    expect(registry.namespace('documents').entries()).toEqual([]);
+  });
+
+  it(`should delete namespaces and report unknown ones`, () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const registry = KDUIDRegistry();
+    const uid = registry.namespace('users').generateUIDFor('kd');
+    expect(registry.delete('users')).toBe(true);
+    expect(registry.has('users')).toBe(false);
+    expect(registry.ownerOf(uid)).toBeUndefined();
+    expect(registry.delete('users')).toBe(false);
+    expect(registry.reset('missing')).toBe(false);
+    error.mockRestore();
+  });
+});
+
+describe('registry tags', () => {
+  it(`should embed the namespace tag in generated uids`, () => {
+    const registry = KDUIDRegistry({ generator: { version: 7 } });
+    const users = registry.namespace('users', { tag: 0x2a });
+    const uids = [...new Array(20)].map((_, i) => users.generateUIDFor(i));
+
+    uids.forEach((uid) => {
+      expect(uid.slice(24, 26)).toBe('2a');
+      expect(users.hasKeyFor(uid)).toBe(true);
+    });
+    expect(new Set(uids).size).toBe(uids.length);
+  });
+
+  it(`should identify the namespace of released uids by tag`, () => {
+    const registry = KDUIDRegistry();
+    const users = registry.namespace('users', { tag: 1 });
+    registry.namespace('documents', { tag: 2 });
+    const uid = users.generateUIDFor('kd');
+    registry.reset('users');
+
+    expect(registry.getKeyFor(uid)).toBeUndefined();
+    expect(registry.ownerOf(uid)).toBe('users');
+  });
+
+  it(`should reject invalid or reused tags`, () => {
+    const registry = KDUIDRegistry();
+    registry.namespace('users', { tag: 1 });
+    expect(() => registry.namespace('documents', { tag: 1 })).toThrow(
+      RangeError
+    );
+    expect(() => registry.namespace('widgets', { tag: 256 })).toThrow(
+      RangeError
+    );
+    expect(registry.has('documents')).toBe(false);
+  });
+
+  it(`should keep the node of uids generated by two nodes`, () => {
+    const registries = [1, 2].map((node) =>
+      KDUIDRegistry({ generator: { node: node } })
+    );
+    registries.forEach((registry) =>
+      expect(() => registry.namespace('users', { tag: 7 })).toThrow(TypeError)
+    );
+    const nodes = registries.map((registry) => {
+      const uid = registry.namespace('users').generateUIDFor('kd');
+      return KDUID([], { node: 0 }).inspect(uid).node;
+    });
+    expect(nodes).toEqual([1, 2]);
+  });
+});
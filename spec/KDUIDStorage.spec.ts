@@ -0,0 +1,216 @@
+/**
+ * @file KDUIDStorage.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for KDUIDStorage.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KDUIDManager } from '../src/module/dev/KDUIDManager';
+import {
+  KDUIDAsyncStorage,
+  KDUIDFileStorage,
+  KDUIDLocalStorage,
+  KDUIDMemoryStorage,
+} from '../src/module/dev/KDUIDStorage';
+
+const uidA = 'aa97b177-9383-4934-8543-0f91a7a02836';
+const uidB = '0b3a5d4c-1f2e-4a6b-9c8d-7e6f5a4b3c2d';
+
+describe('storage write-through', () => {
+  it(`should write on every change`, () => {
+    const storage = KDUIDMemoryStorage();
+    const manager = KDUIDManager({ storage });
+    const uid = manager.generateUIDFor('kd');
+    expect(JSON.parse(storage.load() as string).entries).toEqual([['kd', uid]]);
+    manager.deleteEntryForKey('kd');
+    expect(JSON.parse(storage.load() as string).entries).toEqual([]);
+  });
+
+  it(`should encode keys with the codec`, () => {
+    const users = [{ id: 'a' }, { id: 'b' }];
+    const codec = {
+      encode: (user: { id: string }) => user.id,
+      decode: (id: string) => users.find((user) => user.id === id),
+    };
+    const storage = KDUIDMemoryStorage();
+    const manager = KDUIDManager({ storage, codec });
+    const uid = manager.generateUIDFor(users[1]);
+
+    const restored = KDUIDManager({ storage, codec });
+    expect(restored.getKeyFor(uid)).toBe(users[1]);
+  });
+
+  it(`should debounce writes until flushed or idle`, async () => {
+    jest.useFakeTimers();
+    const storage = KDUIDMemoryStorage();
+    const save = jest.spyOn(storage, 'save');
+    const manager = KDUIDManager({ storage, debounce: 100 });
+
+    manager.generateUIDFor('a');
+    manager.generateUIDFor('b');
+    expect(save).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(100);
+    expect(save).toHaveBeenCalledTimes(1);
+
+    manager.generateUIDFor('c');
+    await manager.flush();
+    expect(save).toHaveBeenCalledTimes(2);
+    jest.advanceTimersByTime(100);
+    expect(save).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+
+  it(`should report failed writes without throwing`, () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = KDUIDManager({
+      storage: {
+        load: () => undefined,
+        save: () => {
+          throw new Error('full');
+        },
+      },
+    });
+    expect(() => manager.generateUIDFor('kd')).not.toThrow();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe('storage hydration', () => {
+  it(`should hydrate synchronously from a synchronous adapter`, async () => {
+    const storage = KDUIDMemoryStorage({
+      version: 1,
+      entries: [['kd', uidA]],
+      existing: [uidA],
+    });
+    const manager = KDUIDManager({ storage });
+    expect(manager.getKeyFor(uidA)).toBe('kd');
+    expect(await manager.ready).toEqual({ changed: [], invalid: [] });
+  });
+
+  it(`should report duplicate and invalid uids like setEntries`, async () => {
+    const codec = {
+      encode: (key: string) => key,
+      decode: (key: string) => (key === 'missing' ? undefined : key),
+    };
+    const storage = KDUIDMemoryStorage({
+      version: 1,
+      entries: [
+        ['a', uidA],
+        ['b', uidA],
+        ['missing', uidB],
+      ],
+      existing: [uidA, uidB],
+    });
+    const manager = KDUIDManager({ storage, codec });
+    const result = await manager.ready;
+
+    expect(result).toEqual({
+      changed: [['b', manager.getUIDFor('b')]],
+      invalid: [['missing', uidB]],
+    });
+    // the repaired state is written back
+    expect(JSON.parse(storage.load() as string).entries).toEqual(
+      manager.entries()
+    );
+  });
+
+  it(`should merge changes made while an async adapter loads`, async () => {
+    let stored: any = {
+      version: 1,
+      entries: [
+        ['a', uidA],
+        ['b', uidB],
+      ],
+      existing: [uidA, uidB],
+    };
+    const storage = KDUIDAsyncStorage({
+      get: () => Promise.resolve(stored),
+      set: (_, value) => Promise.resolve((stored = value)),
+    });
+    const manager = KDUIDManager({ storage });
+    const uid = manager.generateUIDFor('b');
+    expect(manager.entries()).toEqual([['b', uid]]);
+
+    expect(await manager.ready).toEqual({ changed: [], invalid: [] });
+    // the entry set while loading keeps its place
+    expect(manager.entries()).toEqual([
+      ['b', uid],
+      ['a', uidA],
+    ]);
+    await manager.flush();
+    expect(stored.entries).toEqual(manager.entries());
+    expect(stored.existing).toEqual(expect.arrayContaining([uidA, uid]));
+  });
+
+  it(`should resolve false when loading fails`, async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = KDUIDManager({
+      storage: {
+        load: () => Promise.reject(new Error('offline')),
+        save: () => undefined,
+      },
+    });
+    expect(await manager.ready).toBe(false);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe('storage adapters', () => {
+  it(`should persist to a localStorage-like object`, () => {
+    const items = new Map<string, string>();
+    const local = {
+      getItem: (key: string) => (items.has(key) ? items.get(key) : null),
+      setItem: (key: string, value: string) => items.set(key, value),
+    };
+    const manager = KDUIDManager({ storage: KDUIDLocalStorage('uids', local) });
+    const uid = manager.generateUIDFor('kd');
+    expect(items.has('uids')).toBe(true);
+
+    const restored = KDUIDManager({
+      storage: KDUIDLocalStorage('uids', local),
+    });
+    expect(restored.getKeyFor(uid)).toBe('kd');
+  });
+
+  it(`should throw if localStorage is unavailable`, () => {
+    const root: any = globalThis;
+    const original = root.localStorage;
+    Object.defineProperty(root, 'localStorage', {
+      value: undefined,
+      configurable: true,
+    });
+    try {
+      expect(() => KDUIDLocalStorage()).toThrow(Error);
+    } finally {
+      Object.defineProperty(root, 'localStorage', {
+        value: original,
+        configurable: true,
+      });
+    }
+  });
+
+  it(`should persist to a file`, () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kduid-'));
+    const file = path.join(dir, 'state.json');
+    try {
+      const manager = KDUIDManager({ storage: KDUIDFileStorage(file) });
+      const uid = manager.generateUIDFor('kd');
+      const restored = KDUIDManager({ storage: KDUIDFileStorage(file) });
+      expect(restored.getKeyFor(uid)).toBe('kd');
+      expect(fs.readdirSync(dir)).toEqual(['state.json']);
+    } finally {
+      fs.readdirSync(dir).forEach((name) =>
+        fs.unlinkSync(path.join(dir, name))
+      );
+      fs.rmdirSync(dir);
+    }
+  });
+});
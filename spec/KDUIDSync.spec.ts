@@ -0,0 +1,203 @@
+/**
+ * @file KDUIDSync.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for KDUIDSync.ts
+ */
+
+import { KDUID } from '../src/module/dev/KDUID';
+import { KDUIDManager } from '../src/module/dev/KDUIDManager';
+import { KDUIDSeededRandom } from '../src/module/dev/KDUIDRandom';
+import {
+  KDUIDMemoryChannel,
+  KDUIDSyncTransport,
+} from '../src/module/dev/KDUIDSync';
+
+/**
+ * A channel that holds messages until `deliver()` is called, so changes in different
+ * managers can be made concurrently.
+ */
+const DelayedChannel = () => {
+  const queue: { from: number; data: string }[] = [];
+  const endpoints: ((event: { data: any }) => void)[] = [];
+  return {
+    connect: (): KDUIDSyncTransport => {
+      const index = endpoints.length;
+      const listeners: ((event: { data: any }) => void)[] = [];
+      endpoints.push((event) =>
+        listeners.forEach((listener) => listener(event))
+      );
+      return {
+        postMessage: (message) =>
+          queue.push({ from: index, data: JSON.stringify(message) }),
+        addEventListener: (_, listener) => listeners.push(listener),
+      };
+    },
+    /**
+     * Deliver queued messages, including any posted while delivering.
+     */
+    deliver: () => {
+      while (queue.length) {
+        const { from, data } = queue.shift();
+        endpoints.forEach((endpoint, index) => {
+          if (index !== from) endpoint({ data: JSON.parse(data) });
+        });
+      }
+    },
+  };
+};
+
+describe('sync propagation', () => {
+  it(`should spread generated uids to every peer`, () => {
+    const channel = KDUIDMemoryChannel();
+    const a = KDUIDManager({ sync: channel.connect() });
+    const b = KDUIDManager({ sync: channel.connect() });
+    const uid = a.generateUIDFor('kd');
+
+    expect(b.getKeyFor(uid)).toBe('kd');
+    expect(b.toJSON().existing).toContain(uid);
+
+    const next = b.generateUIDFor('kd');
+    expect(a.getUIDFor('kd')).toBe(next);
+    expect(a.toJSON().existing).toEqual(expect.arrayContaining([uid, next]));
+  });
+
+  it(`should spread deletions and resets`, () => {
+    const channel = KDUIDMemoryChannel();
+    const a = KDUIDManager({ sync: channel.connect() });
+    const b = KDUIDManager({ sync: channel.connect() });
+    const uid = a.generateUIDFor('a');
+    a.generateUIDFor('b');
+
+    b.deleteEntryForUID(uid);
+    expect(a.hasKeyFor(uid)).toBe(false);
+    expect(a.toJSON().existing).not.toContain(uid);
+
+    a.reset();
+    expect(b.entries()).toEqual([]);
+  });
+
+  it(`should spread replaced entries`, () => {
+    const channel = KDUIDMemoryChannel();
+    const a = KDUIDManager({ sync: channel.connect() });
+    const b = KDUIDManager({ sync: channel.connect() });
+    a.generateUIDFor('old');
+    const uid = KDUID().generate();
+
+    b.setEntries([['new', uid]]);
+    expect(a.entries()).toEqual([['new', uid]]);
+  });
+
+  it(`should exchange entries when a peer joins`, () => {
+    const channel = KDUIDMemoryChannel();
+    const a = KDUIDManager({ sync: channel.connect() });
+    const uidA = a.generateUIDFor('a');
+
+    const late = KDUIDManager();
+    const uidB = late.generateUIDFor('b');
+    const b = KDUIDManager({
+      sync: channel.connect(),
+      storage: { load: () => late.toJSON(), save: () => undefined },
+    });
+
+    expect(b.getKeyFor(uidA)).toBe('a');
+    expect(a.getKeyFor(uidB)).toBe('b');
+  });
+
+  it(`should resolve keys with the codec`, () => {
+    const users = [{ id: 'a' }, { id: 'b' }];
+    const codec = {
+      encode: (user: { id: string }) => user.id,
+      decode: (id: string) => users.find((user) => user.id === id),
+    };
+    const channel = KDUIDMemoryChannel();
+    const a = KDUIDManager({ sync: channel.connect(), codec });
+    const b = KDUIDManager({ sync: channel.connect(), codec });
+    const uid = a.generateUIDFor(users[1]);
+    expect(b.getKeyFor(uid)).toBe(users[1]);
+  });
+
+  it(`should notify listeners of remote changes without echoing them`, () => {
+    const channel = KDUIDMemoryChannel();
+    const a = KDUIDManager({ sync: channel.connect() });
+    const b = KDUIDManager({ sync: channel.connect() });
+    const listenerA = jest.fn();
+    const listenerB = jest.fn();
+    a.subscribe(listenerA);
+    b.subscribe(listenerB);
+
+    const uid = a.generateUIDFor('kd');
+    expect(listenerA).toHaveBeenCalledTimes(1);
+    expect(listenerB).toHaveBeenCalledWith({
+      type: 'added',
+      key: 'kd',
+      uid: uid,
+    });
+    expect(listenerB).toHaveBeenCalledTimes(1);
+  });
+
+  it(`should ignore unrelated messages`, () => {
+    const channel = KDUIDMemoryChannel();
+    const a = KDUIDManager({ sync: channel.connect() });
+    const other = channel.connect();
+    other.postMessage({ type: 'reset' });
+    other.postMessage('hello');
+    a.generateUIDFor('kd');
+    other.postMessage({ type: 'reset', from: 'x' });
+    expect(a.keys()).toEqual(['kd']);
+  });
+});
+
+describe('sync conflicts', () => {
+  it(`should settle concurrent assignments of a key on one uid`, () => {
+    const channel = DelayedChannel();
+    const a = KDUIDManager({ sync: channel.connect() });
+    const b = KDUIDManager({ sync: channel.connect() });
+    channel.deliver();
+
+    const uidA = a.generateUIDFor('kd');
+    const uidB = b.generateUIDFor('kd');
+    channel.deliver();
+
+    expect(a.getUIDFor('kd')).toBe(b.getUIDFor('kd'));
+    expect([uidA, uidB]).toContain(a.getUIDFor('kd'));
+    expect(a.entries()).toEqual(b.entries());
+  });
+
+  it(`should regenerate the older of two keys assigned the same uid`, () => {
+    // seeded generators issue the same uid in both managers
+    const generator = () => KDUID([], { random: KDUIDSeededRandom(7) });
+    const channel = DelayedChannel();
+    const a = KDUIDManager({ sync: channel.connect(), generator: generator() });
+    const b = KDUIDManager({ sync: channel.connect(), generator: generator() });
+    channel.deliver();
+
+    const uid = a.generateUIDFor('x');
+    expect(b.generateUIDFor('y')).toBe(uid);
+    channel.deliver();
+
+    expect(a.getUIDFor('x')).not.toBe(a.getUIDFor('y'));
+    expect([a.getUIDFor('x'), a.getUIDFor('y')]).toContain(uid);
+    expect(a.entries().sort()).toEqual(b.entries().sort());
+  });
+
+  it(`should drop assignments older than a reset`, () => {
+    const channel = DelayedChannel();
+    const a = KDUIDManager({ sync: channel.connect() });
+    const b = KDUIDManager({ sync: channel.connect() });
+    channel.deliver();
+
+    a.generateUIDFor('a');
+    channel.deliver();
+    b.generateUIDFor('b');
+    a.reset();
+    b.reset();
+    channel.deliver();
+
+    expect(a.entries()).toEqual([]);
+    expect(b.entries()).toEqual([]);
+  });
+});
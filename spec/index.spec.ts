@@ -0,0 +1,47 @@
+/**
+ * @file index.spec.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * Jest tests for the package entry.
+ */
+
+import * as entry from '../src/module/dev';
+
+describe('package entry', () => {
+  it(`should export the public api`, () => {
+    [
+      'KDUID',
+      'KDUIDNamespaces',
+      'KDUIDCanonical',
+      'KDUIDContentNamespace',
+      'KDUIDDom',
+      'KDUIDEncode',
+      'KDUIDDecode',
+      'KDUIDCandidates',
+      'KDUIDManager',
+      'KDUIDManagerStateVersion',
+      'KDUIDRandom',
+      'KDUIDSeededRandom',
+      'KDUIDRegistry',
+      'KDUIDMemoryStorage',
+      'KDUIDLocalStorage',
+      'KDUIDFileStorage',
+      'KDUIDStore',
+      'KDUIDMemoryChannel',
+    ].forEach((name) => expect(entry[name]).toBeDefined());
+  });
+
+  it(`should leave out the React bindings and the command-line tool`, () => {
+    expect(entry['useUID']).toBeUndefined();
+    expect(entry['KDUIDCli']).toBeUndefined();
+  });
+
+  it(`should create managers that work`, () => {
+    const manager = entry.KDUIDManager();
+    const uid = manager.generateUIDFor('a');
+    expect(entry.KDUID().validate(uid)).toEqual([uid]);
+  });
+});
@@ -5,51 +5,242 @@
  * @copyright Cadence Holmes 2020
  * @license MIT
  * @fileoverview `export const KDUID`
- * Generate RFC4122 version 4 compliant unique identifiers using pseudo-random
- * values from `window.crypto` (with a fallback to `Math.Random`). A pre-generated
- * lookup table is used for performance optimization, and generated UUIDs are checked
- * against an array of previously generated UUIDs to ensure uniqueness.
+ * Generate RFC 9562 (formerly RFC4122) compliant unique identifiers using pseudo-random
+ * values from the environment's `crypto` (with a fallback to `Math.Random`). Version 4 is generated
+ * by default; versions 1, 3, 5, 6, 7 and the nil/max identifiers are available through
+ * the `version` option. A pre-generated lookup table is used for performance optimization,
+ * and generated UUIDs are checked against a hashed store of previously generated UUIDs to
+ * ensure uniqueness.
  * @note Based on discussions found here:
  * https://stackoverflow.com/questions/105034/create-guid-uuid-in-javascript
  */
 
+import { KDUIDCandidates, KDUIDDecode, KDUIDEncode } from './KDUIDEncoding';
+import { md5, sha1, utf8 } from './KDUIDHash';
+import {
+  KDUIDRandom,
+  KDUIDRandomSource,
+  KDUIDSeededRandom,
+  KDUIDSeededSource,
+  KDUIDSeedState,
+} from './KDUIDRandom';
+import { KDUIDRetention, KDUIDStore } from './KDUIDStore';
+
+/**
+ * Identifier versions `KDUID` is able to generate. `nil` is the all-zero identifier
+ * and `max` is the all-one identifier.
+ */
+export type KDUIDVersion = 1 | 3 | 4 | 5 | 6 | 7 | 'nil' | 'max';
+
+/**
+ * Options for `KDUID.generate()`. Name-based versions (3 and 5) require a `name` and
+ * a `namespace`, either here or as the generator's default namespace.
+ */
+export type KDUIDGenerateOptions = {
+  version?: KDUIDVersion;
+  name?: string;
+  namespace?: string;
+};
+
+/**
+ * What `KDUID.inspect()` reads from an identifier. Times are unix milliseconds.
+ */
+export type KDUIDDetails = {
+  version: number | 'nil' | 'max';
+
+  /**
+   * When a time-based identifier (versions 1, 6 and 7) was generated.
+   */
+  timestamp?: number;
+
+  /**
+   * The clock sequence of versions 1 and 6.
+   */
+  clockSeq?: number;
+
+  /**
+   * The node of versions 1 and 6, and of version 7 when the generator has a `node`.
+   */
+  node?: number;
+
+  /**
+   * The position of a version 7 identifier within its millisecond, when the generator
+   * has a `node`.
+   */
+  counter?: number;
+};
+
+/**
+ * Options for the `KDUID` factory.
+ */
+export type KDUIDOptions = {
+  /**
+   * The version produced by `generate()` when no per-call version is given.
+   * Defaults to `4`.
+   */
+  version?: KDUIDVersion;
+
+  /**
+   * The default namespace UID used for name-based (version 3 and 5) identifiers.
+   */
+  namespace?: string;
+
+  /**
+   * How previously generated UUIDs are retained for collision checks. Defaults to
+   * `{ mode: 'unbounded' }`. See `KDUIDRetention`.
+   */
+  retention?: KDUIDRetention;
+
+  /**
+   * The random byte provider. Defaults to the environment's cryptographically secure
+   * source (`globalThis.crypto` or Node's `crypto` module). Pass `KDUIDSeededRandom(seed)`
+   * for deterministic output in tests.
+   */
+  random?: KDUIDRandomSource;
+
+  /**
+   * Throw when no cryptographically secure random source is found instead of falling
+   * back to `Math.random`. Ignored when `random` is given.
+   */
+  strict?: boolean;
+
+  /**
+   * Generate from `KDUIDSeededRandom(seed)` instead of `random`, so the same seed always
+   * produces the same sequence of identifiers. For tests and replays only, the output
+   * is predictable. See `getSeed`.
+   */
+  seed?: number | string;
+
+  /**
+   * Resume the `seed` sequence after this many 32-bit values were drawn, as reported
+   * by `getSeed`. Defaults to `0`.
+   */
+  counter?: number;
+
+  /**
+   * This generator's node or shard id, unique among every generator minting the same
+   * kind of identifier. Makes time-based identifiers unique without coordination:
+   * version 7 holds the node after a monotonic counter, and versions 1 and 6 use it as
+   * their node. The default version becomes `7`. Must fit in `nodeBits`.
+   */
+  node?: number;
+
+  /**
+   * The bits of a version 7 identifier used for the `node`, from `1` to `32`. Defaults
+   * to `16`, leaving 40 random bits.
+   */
+  nodeBits?: number;
+
+  /**
+   * Returns the current time in milliseconds for time-based identifiers. Defaults to
+   * `Date.now`.
+   */
+  clock?: () => number;
+};
+
 /**
- * Generate RFC4122 version 4 compliant unique identifiers using pseudo-random
- * values from `window.crypto` (with a fallback to `Math.Random`). A pre-generated
- * lookup table is used for performance optimization, and generated UUIDs are checked
- * against an array of previously generated UUIDs to ensure uniqueness.
+ * Pre-defined namespace identifiers from RFC 9562 for name-based identifiers.
+ */
+export const KDUIDNamespaces = Object.freeze({
+  DNS: '6ba7b810-9dad-11d1-80b4-00c04fd430c8',
+  URL: '6ba7b811-9dad-11d1-80b4-00c04fd430c8',
+  OID: '6ba7b812-9dad-11d1-80b4-00c04fd430c8',
+  X500: '6ba7b814-9dad-11d1-80b4-00c04fd430c8',
+});
+
+/**
+ * Generate RFC 9562 compliant unique identifiers using pseudo-random values from
+ * the environment's `crypto` (with a fallback to `Math.Random`), or an injected source. A pre-generated lookup table is
+ * used for performance optimization, and generated UUIDs are checked against a hashed
+ * store of previously generated UUIDs to ensure uniqueness.
  * @param {string[]} [uuids] - Pass an array of existing UUIDs to set/restore state.
+ * @param {KDUIDOptions} [options] - Set the default version, namespace, retention and
+ * random source.
  * @returns {{generate: () => string}}
  */
 export const KDUID = (
-  uuids?: string[]
+  uuids?: string[],
+  options?: KDUIDOptions
 ): {
   /**
-   * Determine which pseudo-random number generator to use, generate four random
-   * values, and coerce the output to a RFC4122 version 4 compliant unique identifier.
-   * Checks with stored UUIDs to absolutely ensure the value is unique.
-   * @returns {string} RFC4122 version 4 compliant unique identifier as alpha-numeric `string`.
+   * Determine which pseudo-random number generator to use, generate random values, and
+   * coerce the output to a RFC 9562 compliant unique identifier of the configured version.
+   * Checks with stored UUIDs to absolutely ensure the value is unique. Name-based (3 and 5)
+   * and nil/max identifiers are deterministic, so they are returned as-is instead of being
+   * regenerated when they already exist.
+   * @param {KDUIDVersion | KDUIDGenerateOptions} [options] - Override the version for this
+   * call, and provide the `name` and `namespace` for name-based identifiers.
+   * @returns {string} RFC 9562 compliant unique identifier as alpha-numeric `string`.
    */
-  generate: () => string;
+  generate: (options?: KDUIDVersion | KDUIDGenerateOptions) => string;
 
   /**
-   * Retrieve the array of previously generated UUIDs.
+   * Retrieve the array of previously generated UUIDs. Returns an empty array when the
+   * retention mode cannot list its contents (`bloom`).
    * @return {string[]} `string[]`
    */
   getExisting: () => string[];
 
   /**
    * Set the array of previously generated UUIDs. Checks the array for validity and only
-   * sets the internal store if the check passes. Returns `true` on success and `false`
-   * if failed.
+   * sets the internal store if the check passes. Any RFC 9562 version and any form
+   * `decode` can read is accepted, and stored in its canonical form. Returns
+   * `true` on success and `false` if failed. An `lru` store keeps only the most recent
+   * `maxSize` UUIDs.
    * @param {string[]} uuids - Array of existing UUIDs.
    * @returns {boolean} Returns `true` on success.
    */
   setExisting: (uuids: string[]) => void;
 
   /**
-   * Validate as RFC4122 version 4 compliant unique identifier.
+   * Add UUIDs to the store of previously generated UUIDs without clearing it. Checks the
+   * array for validity and only adds to the store if the check passes. Any RFC 9562
+   * version and any form `decode` can read is accepted, and stored in its canonical form.
+   * @param {string | string[]} uuids - Either a single string or array of strings to add.
+   * @returns {boolean} Returns `true` on success.
+   */
+  addExisting: (uuids: string | string[]) => boolean;
+
+  /**
+   * Check if a UUID is held in the store of previously generated UUIDs. A `bloom` store
+   * may return false positives.
+   * @param {string} uid - The UUID in any form.
+   * @returns {boolean}
+   */
+  hasExisting: (uid: string) => boolean;
+
+  /**
+   * Retrieve the seed and position of a seeded generator, see `KDUIDSeededRandom`.
+   * Passing them to `setSeed`, or as the `seed` and `counter` options, resumes the
+   * sequence exactly.
+   * @returns {KDUIDSeedState | undefined} `{ seed, counter }`, or `undefined` if the
+   * generator isn't seeded.
+   */
+  getSeed: () => KDUIDSeedState | undefined;
+
+  /**
+   * Generate from a seeded sequence from now on, starting after `counter` values.
+   * @param {number | string} seed - Numbers are used as-is, strings are hashed.
+   * @param {number} [counter] - Values already drawn. Defaults to `0`.
+   * @returns {boolean} `false` if the counter isn't a positive integer.
+   */
+  setSeed: (seed: number | string, counter?: number) => boolean;
+
+  /**
+   * Remove UUIDs from the store of previously generated UUIDs so they are no longer
+   * checked against. Returns `true` if any UUID was removed. A `bloom` store cannot
+   * remove UUIDs and always returns `false`.
+   * @param {string | string[]} uuids - Either a single string or array of strings to remove.
+   * @returns {boolean} Returns `true` if the store changed.
+   */
+  deleteExisting: (uuids: string | string[]) => boolean;
+
+  /**
+   * Validate as RFC 9562 compliant unique identifier. Checks for the generator's configured
+   * version unless a `version` is given. Pass `'any'` to accept any RFC 9562 version
+   * (including the nil and max identifiers). Accepts any form `decode` can read.
    * @param {string | string[]} uuids - Either a single string or array of strings to test.
+   * @param {KDUIDVersion | 'any'} [version] - The version to check for.
    * @returns {string[]} Returns `string[]` containing all valid strings.
    *
    * @example `Single valid string`
@@ -72,10 +263,71 @@ export const KDUID = (
    * const uids = ['invalid-uid', uid];
    * const validated = uuid.validate(uids); // validated == [uid]
    * const isValid = validated.length === uids.length; // false
+   *
+   * @example `Any version`
+   * const v7 = KDUID([], { version: 7 }).generate();
+   * uuid.validate(v7); // []
+   * uuid.validate(v7, 7); // [v7]
+   * uuid.validate(v7, 'any'); // [v7]
+   */
+  validate: (
+    uuids: string | string[],
+    version?: KDUIDVersion | 'any'
+  ) => string[];
+
+  /**
+   * Convert a UID given in any form to the given encoding. See `KDUIDEncoding`.
+   * @param {string | Uint8Array} uid - The UID in any form.
+   * @param {KDUIDEncoding} encoding - The target form.
+   * @returns {string | Uint8Array | undefined} The encoded UID, a `Uint8Array` for
+   * `bytes`, or `undefined` if the input is unreadable.
+   *
+   * @example
+   * uuid.encode(uid, 'base64url'); // 'qpexd5ODSTSFQw-Rp6AoNg'
+   * uuid.decode('qpexd5ODSTSFQw-Rp6AoNg'); // uid
+   */
+  encode: typeof KDUIDEncode;
+
+  /**
+   * Convert a UID given in any form (uppercase, braced, URN, Crockford base32, base58,
+   * base64url or bytes) to its canonical lowercase hyphenated form.
+   * @param {string | Uint8Array} value - The UID in any form.
+   * @returns {string | undefined} The canonical UID, or `undefined` if unreadable.
+   */
+  decode: (value: string | Uint8Array) => string | undefined;
+
+  /**
+   * Read the version, timestamp, clock sequence, node and counter held in a UID given
+   * in any form, for debugging. The `node` and `counter` of version 7 are only read
+   * with this generator's `nodeBits`, when it has a `node`.
+   * @param {string} uid - The UID in any form.
+   * @returns {KDUIDDetails | undefined} The details, or `undefined` if unreadable.
+   *
+   * @example
+   * const uuid = KDUID([], { node: 42 });
+   * uuid.inspect(uuid.generate()); // { version: 7, timestamp: 1700000000000, node: 42, counter: 91270 }
    */
-  validate: (uuids: string | string[]) => string[];
+  inspect: (uid: string) => KDUIDDetails | undefined;
 } => {
-  let generated = uuids || [];
+  const generated = KDUIDStore(options && options.retention);
+  const node = options && options.node;
+  const nodeBits =
+    options && options.nodeBits !== undefined ? options.nodeBits : 16;
+  if (!(Number.isInteger(nodeBits) && nodeBits >= 1 && nodeBits <= 32)) {
+    throw new RangeError('KDUID - nodeBits must be an integer from 1 to 32');
+  }
+  if (
+    node !== undefined &&
+    !(Number.isInteger(node) && node >= 0 && node < 2 ** nodeBits)
+  ) {
+    throw new RangeError(
+      `KDUID - node must be an integer from 0 to ${2 ** nodeBits - 1}`
+    );
+  }
+  const defaultVersion: KDUIDVersion =
+    (options && options.version) || (node === undefined ? 4 : 7);
+  const defaultNamespace = options && options.namespace;
+  const now = (options && options.clock) || Date.now;
 
   /**
    * Lookup table holding 0-255 as hexadecimal numbers.
@@ -121,45 +373,411 @@ export const KDUID = (
   };
 
   /**
-   * Determine which prng to use and return an array of four 32-bit unsigned integers.
+   * Use the lookup table to format 16 bytes as a hyphenated unique identifier. Unlike
+   * `formatUid`, the version and variant bits must already be set.
+   * @param {Uint8Array} bytes - The 16 identifier bytes.
+   * @returns {string}
+   */
+  const formatBytes = (bytes: Uint8Array): string => {
+    const v = Array.from(bytes).map((byte) => lookup[byte]);
+    return (
+      `${v[0]}${v[1]}${v[2]}${v[3]}-${v[4]}${v[5]}-${v[6]}${v[7]}-` +
+      `${v[8]}${v[9]}-${v[10]}${v[11]}${v[12]}${v[13]}${v[14]}${v[15]}`
+    );
+  };
+
+  /**
+   * The random byte provider: seeded, injected or detected from the environment.
+   */
+  let random: KDUIDRandomSource =
+    options && options.seed !== undefined
+      ? KDUIDSeededRandom(options.seed, options.counter)
+      : (options && options.random) || KDUIDRandom(options && options.strict);
+
+  /**
+   * Return 16 random bytes from the selected prng.
+   * @returns {Uint8Array}
+   */
+  const getRandomBytes = (): Uint8Array =>
+    Uint8Array.from(random(new Uint8Array(16)));
+
+  /**
+   * Return an array of four 32-bit unsigned integers from the selected prng.
    * @returns {[number, number, number, number]}
    */
-  const getRandomValues: () => [number, number, number, number] =
-    window.crypto && window.crypto.getRandomValues
-      ? () => {
-          return Array.from(
-            window.crypto.getRandomValues(new Uint32Array(4))
-          ) as [number, number, number, number];
-        }
-      : () => {
-          const rand = () => (Math.random() * 0x100000000) >>> 0;
-          return [rand(), rand(), rand(), rand()];
-        };
+  const getRandomValues = (): [number, number, number, number] =>
+    Array.from(new Uint32Array(getRandomBytes().buffer)) as [
+      number,
+      number,
+      number,
+      number
+    ];
+
+  /**
+   * Clock state for the gregorian time-based versions (1 and 6). The clock sequence is
+   * random per generator, and so is the node unless one is configured, as RFC 9562
+   * allows when no MAC address is used.
+   * `ticks` counts 100-nanosecond intervals issued within the same millisecond.
+   * Created on first use, so other versions never draw from the random source for it.
+   */
+  let gregorian:
+    | { node: Uint8Array; clockSeq: number; lastMs: number; ticks: number }
+    | undefined;
+  const getClock = () => {
+    if (!gregorian) {
+      const bytes = getRandomBytes();
+      let id = bytes.slice(0, 6);
+      if (node === undefined) {
+        // multicast bit marks the node as random rather than a MAC address
+        id[0] |= 0x01;
+      } else {
+        id = Uint8Array.from(
+          [0, 0, 0, 0, 0, 0],
+          (_, i) => Math.floor(node / 2 ** (40 - i * 8)) % 256
+        );
+      }
+      gregorian = {
+        node: id,
+        clockSeq: ((bytes[6] << 8) | bytes[7]) & 0x3fff,
+        lastMs: -1,
+        ticks: 0,
+      };
+    }
+    return gregorian;
+  };
+
+  /**
+   * Advance the gregorian clock and return the 60-bit timestamp split into its low
+   * 32 bits and high 28 bits. The clock sequence is bumped when the clock goes backwards
+   * or more than 10,000 identifiers are requested in one millisecond.
+   * @returns {{ low: number; high: number }}
+   */
+  const gregorianTime = (): { low: number; high: number } => {
+    const clock = getClock();
+    const ms = now();
+    if (ms > clock.lastMs) {
+      clock.ticks = 0;
+    } else if (ms === clock.lastMs && clock.ticks < 9999) {
+      clock.ticks++;
+    } else {
+      clock.clockSeq = (clock.clockSeq + 1) & 0x3fff;
+      clock.ticks = 0;
+    }
+    clock.lastMs = ms;
+    // milliseconds between 1582-10-15 and 1970-01-01
+    const msecs = ms + 12219292800000;
+    const low = ((msecs & 0xfffffff) * 10000 + clock.ticks) % 0x100000000;
+    const high = ((msecs / 0x100000000) * 10000) & 0xfffffff;
+    return { low: low >>> 0, high: high };
+  };
+
+  /**
+   * Fill the clock sequence and node of a gregorian time-based identifier.
+   * @param {Uint8Array} bytes - The identifier bytes.
+   * @returns {Uint8Array}
+   */
+  const setClockSeqAndNode = (bytes: Uint8Array): Uint8Array => {
+    const clock = getClock();
+    bytes[8] = (clock.clockSeq >>> 8) | 0x80;
+    bytes[9] = clock.clockSeq & 0xff;
+    bytes.set(clock.node, 10);
+    return bytes;
+  };
+
+  /**
+   * Version 1, gregorian time-based with the timestamp split low-to-high.
+   * @returns {string}
+   */
+  const formatV1 = (): string => {
+    const { low, high } = gregorianTime();
+    const bytes = new Uint8Array(16);
+    bytes[0] = (low >>> 24) & 0xff;
+    bytes[1] = (low >>> 16) & 0xff;
+    bytes[2] = (low >>> 8) & 0xff;
+    bytes[3] = low & 0xff;
+    bytes[4] = (high >>> 8) & 0xff;
+    bytes[5] = high & 0xff;
+    bytes[6] = ((high >>> 24) & 0x0f) | 0x10;
+    bytes[7] = (high >>> 16) & 0xff;
+    return formatBytes(setClockSeqAndNode(bytes));
+  };
+
+  /**
+   * Version 6, gregorian time-based with the timestamp ordered high-to-low so the
+   * identifiers sort by creation time.
+   * @returns {string}
+   */
+  const formatV6 = (): string => {
+    const { low, high } = gregorianTime();
+    const bytes = new Uint8Array(16);
+    bytes[0] = (high >>> 20) & 0xff;
+    bytes[1] = (high >>> 12) & 0xff;
+    bytes[2] = (high >>> 4) & 0xff;
+    bytes[3] = ((high & 0x0f) << 4) | ((low >>> 28) & 0x0f);
+    bytes[4] = (low >>> 20) & 0xff;
+    bytes[5] = (low >>> 12) & 0xff;
+    bytes[6] = ((low >>> 8) & 0x0f) | 0x60;
+    bytes[7] = low & 0xff;
+    return formatBytes(setClockSeqAndNode(bytes));
+  };
+
+  /**
+   * Write a 48-bit unix millisecond timestamp to the first six bytes.
+   * @param {Uint8Array} bytes - The identifier bytes.
+   * @param {number} ms - The timestamp.
+   */
+  const setTimestamp = (bytes: Uint8Array, ms: number) => {
+    bytes[0] = Math.floor(ms / 0x10000000000) & 0xff;
+    bytes[1] = Math.floor(ms / 0x100000000) & 0xff;
+    bytes[2] = (ms >>> 24) & 0xff;
+    bytes[3] = (ms >>> 16) & 0xff;
+    bytes[4] = (ms >>> 8) & 0xff;
+    bytes[5] = ms & 0xff;
+  };
 
-  const validator = (uuids: string | string[]): string[] => {
-    const re = /^[0-9A-F]{8}-[0-9A-F]{4}-4[0-9A-F]{3}-[89AB][0-9A-F]{3}-[0-9A-F]{12}$/i;
+  /**
+   * Version 7, a 48-bit unix millisecond timestamp followed by random bits.
+   * @returns {string}
+   */
+  const formatV7 = (): string => {
+    const bytes = getRandomBytes();
+    setTimestamp(bytes, now());
+    bytes[6] = (bytes[6] & 0x0f) | 0x70;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    return formatBytes(bytes);
+  };
+
+  /**
+   * Counter state for version 7 with a `node`: the last millisecond used and the
+   * position within it.
+   */
+  const monotonic = { lastMs: -1, counter: 0 };
+
+  /**
+   * Version 7 with a node: a 48-bit unix millisecond timestamp, an 18-bit counter in
+   * `rand_a` and the top of `rand_b` (RFC 9562 method 1), then `nodeBits` of node and
+   * random bits. The counter starts at a random value below 2^17 each millisecond. If
+   * the clock stands still or goes backwards, the last millisecond keeps counting, and
+   * when the counter runs out it moves on to the next millisecond, so identifiers from
+   * one generator always sort in the order they were generated.
+   * @returns {string}
+   */
+  const formatV7Node = (): string => {
+    const bytes = getRandomBytes();
+    const ms = now();
+    if (ms > monotonic.lastMs) {
+      monotonic.lastMs = ms;
+      monotonic.counter = (bytes[6] << 9) | (bytes[7] << 1) | (bytes[8] >>> 7);
+    } else if (monotonic.counter < 0x3ffff) {
+      monotonic.counter++;
+    } else {
+      monotonic.lastMs++;
+      monotonic.counter = (bytes[6] << 9) | (bytes[7] << 1) | (bytes[8] >>> 7);
+    }
+    const counter = monotonic.counter;
+    setTimestamp(bytes, monotonic.lastMs);
+    bytes[6] = 0x70 | (counter >>> 14);
+    bytes[7] = (counter >>> 6) & 0xff;
+    bytes[8] = 0x80 | (counter & 0x3f);
+    for (let bit = 0; bit < nodeBits; bit++) {
+      const mask = 0x80 >>> (bit & 7);
+      const index = 9 + (bit >>> 3);
+      if (Math.floor(node / 2 ** (nodeBits - 1 - bit)) % 2) {
+        bytes[index] |= mask;
+      } else {
+        bytes[index] &= ~mask;
+      }
+    }
+    return formatBytes(bytes);
+  };
+
+  /**
+   * Convert a 60-bit gregorian timestamp, split into its high 28 bits and low 32 bits,
+   * to unix milliseconds without losing precision.
+   * @param {number} high - The high 28 bits.
+   * @param {number} low - The low 32 bits.
+   * @returns {number}
+   */
+  const gregorianMs = (high: number, low: number): number =>
+    // 2^32 = 10000 * 429496 + 7296
+    high * 429496 + Math.floor((high * 7296 + low) / 10000) - 12219292800000;
+
+  /**
+   * Read an unsigned big-endian number from a run of bytes.
+   * @param {Uint8Array} bytes - The identifier bytes.
+   * @param {number} start - The first byte.
+   * @param {number} end - The byte after the last.
+   * @returns {number}
+   */
+  const readNumber = (bytes: Uint8Array, start: number, end: number): number =>
+    bytes.slice(start, end).reduce((value, byte) => value * 256 + byte, 0);
+
+  /**
+   * Versions 3 (MD5) and 5 (SHA-1), derived from a namespace UID and a name.
+   * @param {3 | 5} version - The name-based version.
+   * @param {KDUIDGenerateOptions} options - Holds the `name` and `namespace`.
+   * @returns {string}
+   */
+  const formatNameBased = (
+    version: 3 | 5,
+    options: KDUIDGenerateOptions
+  ): string => {
+    const namespace = options.namespace || defaultNamespace;
+    if (typeof options.name !== 'string') {
+      throw new TypeError(`KDUID - version ${version} requires a name`);
+    }
+    if (!namespace || !validator(namespace, 'any').length) {
+      throw new TypeError(`KDUID - version ${version} requires a namespace`);
+    }
+    const name = utf8(options.name);
+    const message = new Uint8Array(16 + name.length);
+    message.set(KDUIDEncode(namespace, 'bytes'));
+    message.set(name, 16);
+    const bytes = (version === 3 ? md5 : sha1)(message).slice(0, 16);
+    bytes[6] = (bytes[6] & 0x0f) | (version << 4);
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    return formatBytes(bytes);
+  };
+
+  const validator = (
+    uuids: string | string[],
+    version: KDUIDVersion | 'any' = defaultVersion
+  ): string[] => {
+    const re =
+      version === 'nil'
+        ? /^00000000-0000-0000-0000-000000000000$/
+        : version === 'max'
+        ? /^FFFFFFFF-FFFF-FFFF-FFFF-FFFFFFFFFFFF$/i
+        : version === 'any'
+        ? /^(?:[0-9A-F]{8}-[0-9A-F]{4}-[1-8][0-9A-F]{3}-[89AB][0-9A-F]{3}-[0-9A-F]{12}|0{8}-0{4}-0{4}-0{4}-0{12}|F{8}-F{4}-F{4}-F{4}-F{12})$/i
+        : new RegExp(
+            `^[0-9A-F]{8}-[0-9A-F]{4}-${version}[0-9A-F]{3}-[89AB][0-9A-F]{3}-[0-9A-F]{12}$`,
+            'i'
+          );
     const arr = Array.isArray(uuids) ? uuids : [uuids];
-    return arr.filter((uid) => re.test(uid));
+    return arr.filter((uid) => KDUIDCandidates(uid).some((c) => re.test(c)));
   };
 
+  /**
+   * Store UUIDs in their canonical form, so every form of a UUID finds it. Values that
+   * aren't valid UUIDs are kept as-is.
+   * @param {string} uid - The UUID in any form.
+   * @returns {string}
+   */
+  const canonical = (uid: string): string =>
+    validator(uid, 'any').length ? KDUIDDecode(uid) : uid;
+  (uuids || []).forEach((uid) => generated.add(canonical(uid)));
+
   return {
-    generate: (): string => {
+    generate: (options?: KDUIDVersion | KDUIDGenerateOptions): string => {
+      const opts: KDUIDGenerateOptions =
+        typeof options === 'object' ? options : { version: options };
+      const version = opts.version || defaultVersion;
+      if (
+        version === 3 ||
+        version === 5 ||
+        version === 'nil' ||
+        version === 'max'
+      ) {
+        const uid =
+          version === 'nil'
+            ? '00000000-0000-0000-0000-000000000000'
+            : version === 'max'
+            ? 'ffffffff-ffff-ffff-ffff-ffffffffffff'
+            : formatNameBased(version, opts);
+        generated.add(uid);
+        return uid;
+      }
       let uid = null;
-      const gen = () => formatUid(getRandomValues());
-      while (!uid || generated.includes(uid)) uid = gen();
-      generated.push(uid);
+      const gen =
+        version === 1
+          ? formatV1
+          : version === 6
+          ? formatV6
+          : version === 7
+          ? node === undefined
+            ? formatV7
+            : formatV7Node
+          : () => formatUid(getRandomValues());
+      while (!uid || generated.has(uid)) uid = gen();
+      generated.add(uid);
       return uid;
     },
-    getExisting: (): string[] => generated,
+    getExisting: (): string[] => generated.list() || [],
     setExisting: (uuids: string[]): boolean => {
-      const validated = validator(uuids);
+      const validated = validator(uuids, 'any');
       if (validated.length === uuids.length) {
-        generated = uuids;
+        generated.clear();
+        uuids.forEach((uid) => generated.add(canonical(uid)));
         return true;
       } else {
         return false;
       }
     },
+    addExisting: (uuids: string | string[]): boolean => {
+      const arr = Array.isArray(uuids) ? uuids : [uuids];
+      if (validator(arr, 'any').length !== arr.length) return false;
+      arr.forEach((uid) => generated.add(canonical(uid)));
+      return true;
+    },
+    hasExisting: (uid: string): boolean => generated.has(canonical(uid)),
+    getSeed: (): KDUIDSeedState | undefined => {
+      const seeded = random as KDUIDSeededSource;
+      return typeof seeded.state === 'function' ? seeded.state() : undefined;
+    },
+    setSeed: (seed: number | string, counter: number = 0): boolean => {
+      if (!(Number.isSafeInteger(counter) && counter >= 0)) return false;
+      random = KDUIDSeededRandom(seed, counter);
+      return true;
+    },
+    deleteExisting: (uuids: string | string[]): boolean => {
+      const arr = Array.isArray(uuids) ? uuids : [uuids];
+      return arr.map((uid) => generated.delete(canonical(uid))).includes(true);
+    },
     validate: validator,
+    encode: KDUIDEncode,
+    decode: KDUIDDecode,
+    inspect: (uid: string): KDUIDDetails | undefined => {
+      const hex = KDUIDDecode(uid);
+      if (hex === undefined) return;
+      if (/^[0-]+$/.test(hex)) return { version: 'nil' };
+      if (/^[f-]+$/.test(hex)) return { version: 'max' };
+      const bytes = KDUIDEncode(hex, 'bytes');
+      const version = bytes[6] >>> 4;
+      const details: KDUIDDetails = { version: version };
+      if (version === 1 || version === 6) {
+        let high: number;
+        let low: number;
+        if (version === 1) {
+          high =
+            ((bytes[6] & 0x0f) << 24) |
+            (bytes[7] << 16) |
+            readNumber(bytes, 4, 6);
+          low = readNumber(bytes, 0, 4);
+        } else {
+          const top = readNumber(bytes, 0, 6);
+          high = Math.floor(top / 0x100000);
+          low = (top % 0x100000) * 0x1000 + ((bytes[6] & 0x0f) << 8) + bytes[7];
+        }
+        details.timestamp = gregorianMs(high, low);
+        details.clockSeq = ((bytes[8] & 0x3f) << 8) | bytes[9];
+        details.node = readNumber(bytes, 10, 16);
+      } else if (version === 7) {
+        details.timestamp = readNumber(bytes, 0, 6);
+        if (node !== undefined) {
+          details.counter =
+            ((bytes[6] & 0x0f) << 14) | (bytes[7] << 6) | (bytes[8] & 0x3f);
+          details.node = Math.floor(
+            readNumber(bytes, 9, 13) / 2 ** (32 - nodeBits)
+          );
+        }
+      }
+      return details;
+    },
   };
 };
+
+/**
+ * The generator returned by `KDUID()`.
+ */
+export type KDUIDInstance = ReturnType<typeof KDUID>;
@@ -0,0 +1,457 @@
+/**
+ * @file KDUIDCli.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDCli`
+ * The `kduid` command-line tool. Generates, validates, converts and dedupes unique
+ * identifiers with the same `KDUID` generator the browser bundle uses, and checks them
+ * against a state file exported with `KDUIDManager.toJSON()`.
+ */
+
+import { KDUID, KDUIDNamespaces, KDUIDVersion } from './KDUID';
+import { KDUIDDecode, KDUIDEncode, KDUIDEncoding } from './KDUIDEncoding';
+import { KDUIDManagerState, KDUIDManagerStateVersion } from './KDUIDManager';
+
+/**
+ * Where the CLI reads input and writes output. Defaults to the Node process.
+ */
+export type KDUIDCliIO = {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  readFile: (path: string) => string;
+  readStdin: () => Promise<string>;
+};
+
+/**
+ * How an identifier checked against a state file is reported.
+ *
+ * - `free` not known to the state.
+ * - `used` held by an entry.
+ * - `retired` held by a tombstone.
+ * - `issued` previously generated.
+ * - `duplicate` appeared earlier in the list.
+ * - `invalid` not a valid RFC 9562 identifier.
+ */
+export type KDUIDCliStatus =
+  | 'free'
+  | 'used'
+  | 'retired'
+  | 'issued'
+  | 'duplicate'
+  | 'invalid';
+
+const usage = `Usage: kduid <command> [options] [file]
+
+Commands:
+  generate             Print new ids, one per line.
+    -n, --count N        How many ids to print. Defaults to 1.
+    -v, --version V      1, 3, 4, 5, 6, 7, nil or max. Defaults to 4.
+    -e, --encoding E     hex, upper, braced, urn, base32, base58 or base64url.
+    --namespace NS       dns, url, oid, x500 or a uid, for versions 3 and 5.
+    --name NAME          The name, for versions 3 and 5.
+    --seed SEED          Generate a repeatable sequence, eg. for fixtures.
+  validate [file]      Report whether each id is valid.
+    -v, --version V      The version to check for. Defaults to any.
+    -q, --quiet          Only set the exit code.
+  convert [file]       Print each id in another encoding.
+    -e, --encoding E     The target encoding. Defaults to hex.
+  dedupe [file]        Print each id once, dropping ids known to the state file.
+    -s, --state FILE     A state file exported with KDUIDManager.toJSON().
+  check [file]         Report whether each id is free in the state file.
+    -s, --state FILE     A state file exported with KDUIDManager.toJSON().
+
+Ids are read one per line from the file, or stdin if no file (or -) is given. Reports
+are tab-separated lines of line number, status and id.
+
+Exit codes: 0 success, 1 an id was invalid or taken, 2 bad arguments or an unreadable
+file.`;
+
+const encodings: KDUIDEncoding[] = [
+  'hex',
+  'upper',
+  'braced',
+  'urn',
+  'base32',
+  'base58',
+  'base64url',
+];
+
+const flags: { [flag: string]: string } = {
+  '-n': 'count',
+  '--count': 'count',
+  '-v': 'version',
+  '--version': 'version',
+  '-e': 'encoding',
+  '--encoding': 'encoding',
+  '--namespace': 'namespace',
+  '--name': 'name',
+  '--seed': 'seed',
+  '-s': 'state',
+  '--state': 'state',
+  '-q': 'quiet',
+  '--quiet': 'quiet',
+  '-h': 'help',
+  '--help': 'help',
+};
+
+const switches = ['quiet', 'help'];
+
+/**
+ * Thrown for invalid arguments or unreadable files. Reported with exit code `2`.
+ */
+class UsageError extends Error {}
+
+/**
+ * Read a file, throwing a `UsageError` if it can't be read.
+ * @param {KDUIDCliIO} io - The IO to read with.
+ * @param {string} path - The file path.
+ * @returns {string}
+ */
+const read = (io: KDUIDCliIO, path: string): string => {
+  try {
+    return io.readFile(path);
+  } catch {
+    throw new UsageError(`can't read ${path}`);
+  }
+};
+
+/**
+ * Split the arguments into the command, options and positional arguments.
+ * @param {string[]} args - The arguments after the executable.
+ * @returns {{ command: string; options: object; positional: string[] }}
+ */
+const parse = (args: string[]) => {
+  const options: { [name: string]: string | boolean } = {};
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-' || arg[0] !== '-') {
+      positional.push(arg);
+      continue;
+    }
+    const [flag, inline] = arg.split(/=(.*)/);
+    const name = flags[flag];
+    if (!name) throw new UsageError(`unknown option ${flag}`);
+    if (switches.includes(name)) {
+      options[name] = true;
+      continue;
+    }
+    const value = inline !== undefined ? inline : args[++i];
+    if (value === undefined) throw new UsageError(`${flag} requires a value`);
+    options[name] = value;
+  }
+  return {
+    command: positional.shift(),
+    options: options,
+    positional: positional,
+  };
+};
+
+/**
+ * Read a version option.
+ * @param {string} value - The option value.
+ * @param {boolean} [any] - Also accept `any`.
+ * @returns {KDUIDVersion | 'any'}
+ */
+const toVersion = (value: string, any?: boolean): KDUIDVersion | 'any' => {
+  if (value === 'nil' || value === 'max') return value;
+  if (any && value === 'any') return value;
+  const version = Number(value);
+  if ([1, 3, 4, 5, 6, 7].includes(version)) return version as KDUIDVersion;
+  throw new UsageError(`unknown version ${value}`);
+};
+
+/**
+ * Read an encoding option.
+ * @param {string} value - The option value.
+ * @returns {KDUIDEncoding}
+ */
+const toEncoding = (value: string): Exclude<KDUIDEncoding, 'bytes'> => {
+  if (!encodings.includes(value as KDUIDEncoding)) {
+    throw new UsageError(`unknown encoding ${value}`);
+  }
+  return value as Exclude<KDUIDEncoding, 'bytes'>;
+};
+
+/**
+ * Format a report line.
+ * @param {number} line - The line number.
+ * @param {string} status - The status of the id.
+ * @param {string} id - The id as read.
+ * @returns {string}
+ */
+const report = (line: number, status: string, id: string): string =>
+  `${line}\t${status}\t${id}`;
+
+/**
+ * The default IO, using the Node process.
+ * @returns {KDUIDCliIO}
+ */
+const nodeIO = (): KDUIDCliIO => {
+  const fs = require('fs');
+  return {
+    stdout: (line) => process.stdout.write(`${line}\n`),
+    stderr: (line) => process.stderr.write(`${line}\n`),
+    readFile: (path) => fs.readFileSync(path, 'utf8'),
+    readStdin: () =>
+      new Promise((resolve, reject) => {
+        let text = '';
+        process.stdin.setEncoding('utf8');
+        process.stdin.on('data', (chunk) => (text += chunk));
+        process.stdin.on('end', () => resolve(text));
+        process.stdin.on('error', reject);
+      }),
+  };
+};
+
+/**
+ * Run the `kduid` command-line tool.
+ * @param {string[]} args - The arguments after the executable, eg.
+ * `process.argv.slice(2)`.
+ * @param {KDUIDCliIO} [io] - Where to read input and write output. Defaults to the Node
+ * process.
+ * @returns {Promise<number>} The exit code.
+ *
+ * @example
+ * KDUIDCli(['generate', '-n', '3', '-v', '7']).then((code) => {
+ *   process.exitCode = code;
+ * });
+ */
+export const KDUIDCli = (args: string[], io?: KDUIDCliIO): Promise<number> => {
+  const out = io || nodeIO();
+
+  const self = {
+    /**
+     * Read the ids, one per line, with their line numbers. Blank lines are skipped.
+     * @param {string} [path] - The file, or stdin if not given or `-`.
+     */
+    ids: (path?: string): Promise<[number, string][]> =>
+      (path === undefined || path === '-'
+        ? out.readStdin()
+        : Promise.resolve().then(() => read(out, path))
+      ).then((text) =>
+        text
+          .split(/\r?\n/)
+          .map((id, i) => [i + 1, id.trim()] as [number, string])
+          .filter(([, id]) => id.length > 0)
+      ),
+    /**
+     * Read a state file and index its UIDs by canonical form.
+     * @param {string} path - The state file.
+     */
+    state: (path: string) => {
+      const text = read(out, path);
+      let parsed: KDUIDManagerState;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        throw new UsageError(`${path} is not valid JSON`);
+      }
+      if (
+        !parsed ||
+        parsed.version !== KDUIDManagerStateVersion ||
+        !Array.isArray(parsed.entries) ||
+        !Array.isArray(parsed.existing)
+      ) {
+        throw new UsageError(`${path} is not a supported state file`);
+      }
+      const statuses = new Map<string, KDUIDCliStatus>();
+      const mark = (uid: string, status: KDUIDCliStatus) => {
+        const canonical = KDUIDDecode(uid);
+        if (canonical !== undefined && !statuses.has(canonical)) {
+          statuses.set(canonical, status);
+        }
+      };
+      parsed.entries.forEach(([, uid]) => mark(uid, 'used'));
+      Object.keys(parsed.tombstones || {}).forEach((uid) =>
+        mark(uid, 'retired')
+      );
+      parsed.existing.forEach((uid) => mark(uid, 'issued'));
+      return statuses;
+    },
+    /**
+     * Classify each id against a state file and the ids before it.
+     * @param {[number, string][]} ids - The ids with their line numbers.
+     * @param {string} [path] - The state file, if any.
+     */
+    classify: (
+      ids: [number, string][],
+      path?: string
+    ): [number, string, KDUIDCliStatus][] => {
+      const statuses =
+        path === undefined
+          ? new Map<string, KDUIDCliStatus>()
+          : self.state(path);
+      const validator = KDUID();
+      const seen = new Set<string>();
+      return ids.map(([line, id]) => {
+        if (!validator.validate(id, 'any').length) return [line, id, 'invalid'];
+        const canonical = KDUIDDecode(id);
+        if (seen.has(canonical)) return [line, id, 'duplicate'];
+        seen.add(canonical);
+        return [line, id, statuses.get(canonical) || 'free'];
+      });
+    },
+    /**
+     * Print new ids.
+     * @param {object} options - The parsed options.
+     */
+    generate: (options: { [name: string]: any }): number => {
+      const count = options.count === undefined ? 1 : Number(options.count);
+      if (!(Number.isInteger(count) && count >= 0)) {
+        throw new UsageError(`invalid count ${options.count}`);
+      }
+      const version = toVersion(options.version || '4') as KDUIDVersion;
+      const encoding = toEncoding(options.encoding || 'hex');
+      const namespace =
+        options.namespace === undefined
+          ? undefined
+          : KDUIDNamespaces[options.namespace.toUpperCase()] ||
+            options.namespace;
+      if (
+        namespace !== undefined &&
+        !KDUID().validate(namespace, 'any').length
+      ) {
+        throw new UsageError(`invalid namespace ${options.namespace}`);
+      }
+      if (
+        (version === 3 || version === 5) &&
+        (options.name === undefined || namespace === undefined)
+      ) {
+        throw new UsageError(
+          `version ${version} requires --namespace and --name`
+        );
+      }
+      const seed =
+        options.seed === undefined || !/^\d+$/.test(options.seed)
+          ? options.seed
+          : Number(options.seed);
+      const uids: string[] = [];
+      try {
+        const generator = KDUID([], {
+          version: version,
+          namespace: namespace && KDUIDDecode(namespace),
+          seed: seed,
+        });
+        for (let i = 0; i < count; i++) {
+          uids.push(generator.generate({ name: options.name }));
+        }
+      } catch (error) {
+        // eg. options the generator rejects
+        throw new UsageError(error.message);
+      }
+      uids.forEach((uid) => out.stdout(KDUIDEncode(uid, encoding)));
+      return 0;
+    },
+    /**
+     * Report whether each id is valid. Exits with `1` if any is invalid.
+     * @param {object} options - The parsed options.
+     * @param {string} [path] - The file, or stdin.
+     */
+    validate: (options: { [name: string]: any }, path?: string) => {
+      const version = toVersion(options.version || 'any', true);
+      const validator = KDUID();
+      return self.ids(path).then((ids) => {
+        let code = 0;
+        ids.forEach(([line, id]) => {
+          const valid = validator.validate(id, version).length > 0;
+          if (!valid) code = 1;
+          if (!options.quiet) {
+            out.stdout(report(line, valid ? 'valid' : 'invalid', id));
+          }
+        });
+        return code;
+      });
+    },
+    /**
+     * Print each id in another encoding. Unreadable ids are reported to stderr and exit
+     * with `1`.
+     * @param {object} options - The parsed options.
+     * @param {string} [path] - The file, or stdin.
+     */
+    convert: (options: { [name: string]: any }, path?: string) => {
+      const encoding = toEncoding(options.encoding || 'hex');
+      return self.ids(path).then((ids) => {
+        let code = 0;
+        ids.forEach(([line, id]) => {
+          const encoded = KDUIDEncode(id, encoding);
+          if (encoded === undefined) {
+            code = 1;
+            out.stderr(report(line, 'invalid', id));
+          } else {
+            out.stdout(encoded);
+          }
+        });
+        return code;
+      });
+    },
+    /**
+     * Print each free id once. Dropped ids are reported to stderr, and invalid ids exit
+     * with `1`.
+     * @param {object} options - The parsed options.
+     * @param {string} [path] - The file, or stdin.
+     */
+    dedupe: (options: { [name: string]: any }, path?: string) =>
+      self.ids(path).then((ids) => {
+        let code = 0;
+        self.classify(ids, options.state).forEach(([line, id, status]) => {
+          if (status === 'free') out.stdout(id);
+          else out.stderr(report(line, status, id));
+          if (status === 'invalid') code = 1;
+        });
+        return code;
+      }),
+    /**
+     * Report the status of each id in the state file. Exits with `1` if any isn't free.
+     * @param {object} options - The parsed options.
+     * @param {string} [path] - The file, or stdin.
+     */
+    check: (options: { [name: string]: any }, path?: string) => {
+      if (options.state === undefined) {
+        throw new UsageError('check requires --state');
+      }
+      return self.ids(path).then((ids) => {
+        let code = 0;
+        self.classify(ids, options.state).forEach(([line, id, status]) => {
+          if (status !== 'free') code = 1;
+          out.stdout(report(line, status, id));
+        });
+        return code;
+      });
+    },
+  };
+
+  const fail = (error: any): number => {
+    if (!(error instanceof UsageError)) throw error;
+    out.stderr(`kduid: ${error.message}`);
+    out.stderr(`Run 'kduid help' for usage.`);
+    return 2;
+  };
+
+  try {
+    const { command, options, positional } = parse(args);
+    if (options.help || command === 'help') {
+      out.stdout(usage);
+      return Promise.resolve(0);
+    }
+    if (positional.length > 1) {
+      throw new UsageError(`unexpected argument ${positional[1]}`);
+    }
+    switch (command) {
+      case 'generate':
+        return Promise.resolve(self.generate(options));
+      case 'validate':
+      case 'convert':
+      case 'dedupe':
+      case 'check':
+        return self[command](options, positional[0]).catch(fail);
+    }
+    throw new UsageError(
+      command === undefined ? 'missing command' : `unknown command ${command}`
+    );
+  } catch (error) {
+    return Promise.resolve(fail(error));
+  }
+};
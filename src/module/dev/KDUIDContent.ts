@@ -0,0 +1,125 @@
+/**
+ * @file KDUIDContent.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDCanonical, KDUIDContentNamespace`
+ * Canonical serialization of plain values, used by `KDUIDManager` in content mode to
+ * derive the same name-based UID for structurally equal values on any machine.
+ */
+
+/**
+ * The default namespace for content-derived UIDs, the version 5 UID of
+ * `https://github.com/justKD/KDUIDManager#content` in the URL namespace.
+ */
+export const KDUIDContentNamespace = '6552a3dc-793f-5eb4-968f-4a329e732c80';
+
+/**
+ * Options for `KDUIDManager` content mode.
+ */
+export type KDUIDContentOptions = {
+  /**
+   * The namespace UID the values are hashed in. Defaults to `KDUIDContentNamespace`.
+   * Use a different namespace per manager to keep equal values in different managers
+   * apart.
+   */
+  namespace?: string;
+
+  /**
+   * `5` hashes with SHA-1 and `3` with MD5. Defaults to `5`.
+   */
+  version?: 3 | 5;
+
+  /**
+   * Derive the UID from the canonical serialization yourself instead. Must return a
+   * valid RFC 9562 identifier.
+   */
+  hash?: (canonical: string) => string;
+};
+
+/**
+ * Check if a value is an array or a plain object.
+ * @param {any} value - The value.
+ * @returns {boolean}
+ */
+const isPlain = (value: any): boolean => {
+  if (Array.isArray(value)) return true;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Serialize a plain value to a canonical JSON string, so structurally equal values
+ * always give the same string. Object keys are sorted by UTF-16 code unit, `toJSON` is
+ * honoured (eg. a `Date` becomes its ISO string), and properties that JSON would drop
+ * (`undefined`, functions, symbols) are left out. Strings stay quoted, so `1` and `'1'`
+ * are different.
+ * @param {any} value - The value to serialize.
+ * @returns {string}
+ * @throws {TypeError} If the value is circular, holds a non-finite number, a `bigint`
+ * or an object that isn't an array, a plain object or `toJSON`-able, or serializes to
+ * nothing.
+ *
+ * @example
+ * KDUIDCanonical({ b: [1, '1'], a: true }); // '{"a":true,"b":[1,"1"]}'
+ */
+export const KDUIDCanonical = (value: any): string => {
+  const ancestors = new Set<object>();
+  const write = (input: any, key: string): string | undefined => {
+    const value =
+      input && typeof input.toJSON === 'function' ? input.toJSON(key) : input;
+    switch (typeof value) {
+      case 'string':
+      case 'boolean':
+        return JSON.stringify(value);
+      case 'number':
+        if (!isFinite(value)) {
+          throw new TypeError(`KDUIDCanonical - ${value} is not serializable`);
+        }
+        return JSON.stringify(value);
+      case 'undefined':
+      case 'function':
+      case 'symbol':
+        return;
+      case 'bigint':
+        throw new TypeError('KDUIDCanonical - bigint is not serializable');
+    }
+    if (value === null) return 'null';
+    if (!isPlain(value)) {
+      throw new TypeError(
+        'KDUIDCanonical - only plain values are serializable'
+      );
+    }
+    if (ancestors.has(value)) {
+      throw new TypeError('KDUIDCanonical - value is circular');
+    }
+    ancestors.add(value);
+    let out: string;
+    if (Array.isArray(value)) {
+      const items = value.map((item, i) => {
+        const written = write(item, String(i));
+        return written === undefined ? 'null' : written;
+      });
+      out = `[${items.join(',')}]`;
+    } else {
+      const pairs: string[] = [];
+      Object.keys(value)
+        .sort()
+        .forEach((name) => {
+          const written = write(value[name], name);
+          if (written !== undefined) {
+            pairs.push(`${JSON.stringify(name)}:${written}`);
+          }
+        });
+      out = `{${pairs.join(',')}}`;
+    }
+    ancestors.delete(value);
+    return out;
+  };
+  const canonical = write(value, '');
+  if (canonical === undefined) {
+    throw new TypeError('KDUIDCanonical - value is not serializable');
+  }
+  return canonical;
+};
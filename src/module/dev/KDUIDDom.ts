@@ -0,0 +1,283 @@
+/**
+ * @file KDUIDDom.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDDom`
+ * Assign UIDs to DOM elements with a `KDUIDManager`, write them to an attribute, and
+ * resolve elements from their UIDs. Elements matching a selector are assigned a UID
+ * when they are added to the document and released when they are removed.
+ */
+
+import { KDUIDManager, KDUIDManagerOptions } from './KDUIDManager';
+
+/**
+ * Create a manager holding elements.
+ * @param {KDUIDManagerOptions} [options] - The manager options.
+ */
+const createManager = (options?: KDUIDManagerOptions) =>
+  KDUIDManager<Element>(options);
+
+/**
+ * A UID in the canonical lowercase hyphenated form, other than nil or max. Compact
+ * forms and nil or max read too easily as an ordinary `id` to be adopted.
+ */
+const uidRe = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+/**
+ * Options for the `KDUIDDom` factory.
+ */
+export type KDUIDDomOptions = {
+  /**
+   * The manager holding the elements. Defaults to a new manager with the given
+   * `tombstones` option.
+   */
+  manager?: ReturnType<typeof createManager>;
+
+  /**
+   * Retire the UIDs of removed elements instead of releasing them, so they are never
+   * reissued. Only used for the default manager. See `KDUIDManagerOptions.tombstones`.
+   */
+  tombstones?: boolean;
+
+  /**
+   * The attribute each UID is written to, a `data-*` attribute or `id`. Pass `false`
+   * to leave elements untouched. Defaults to `data-uid`. With `id`, elements whose id
+   * isn't a UID in the canonical form keep it and are not assigned one.
+   */
+  attribute?: string | false;
+
+  /**
+   * Elements matching this selector are assigned a UID when they are added to `root`
+   * and released when they are removed. Nothing is observed if not given.
+   */
+  selector?: string;
+
+  /**
+   * The node to observe and scan. Defaults to `document`.
+   */
+  root?: Node & ParentNode;
+};
+
+/**
+ * Assign UIDs to DOM elements and resolve elements from their UIDs. If a `selector` is
+ * given, matching elements already in `root` are assigned a UID, and a
+ * `MutationObserver` assigns one to every matching element added later and releases
+ * the UID of every one removed. Moving an element keeps its UID. An element whose
+ * attribute already holds a UID, eg. rendered on the server, keeps it unless the UID
+ * is taken or retired.
+ * @param {KDUIDDomOptions} [options] - The manager, attribute, selector and root.
+ * @returns
+ * @throws {TypeError} If the attribute isn't `id` or a `data-*` attribute.
+ * @throws {Error} If a selector is given without a `MutationObserver` or a `root`.
+ *
+ * @example
+ * const dom = KDUIDDom({ selector: '.card', attribute: 'data-card' });
+ * document.body.appendChild(card); // card.dataset.card holds its UID
+ * dom.getElementFor(card.dataset.card) === card; // true
+ */
+export const KDUIDDom = (options?: KDUIDDomOptions) => {
+  const attribute =
+    options && options.attribute !== undefined ? options.attribute : 'data-uid';
+  if (
+    attribute !== false &&
+    attribute !== 'id' &&
+    !/^data-[a-z0-9_.-]+$/.test(attribute)
+  ) {
+    throw new TypeError(
+      'KDUIDDom - attribute must be id or a lowercase data-* attribute'
+    );
+  }
+  const selector = options && options.selector;
+  const root =
+    (options && options.root) ||
+    (typeof document === 'undefined' ? undefined : document);
+  if (selector !== undefined) {
+    if (typeof MutationObserver !== 'function' || !root) {
+      throw new Error(
+        'KDUIDDom - a selector requires a MutationObserver and a root'
+      );
+    }
+  }
+
+  const self = {
+    manager:
+      (options && options.manager) ||
+      createManager({ tombstones: options && options.tombstones }),
+    observer: undefined as MutationObserver | undefined,
+    /**
+     * Check if an element can be assigned a UID. An `id` that isn't a UID belongs to
+     * the page, so it is never overwritten.
+     * @param {Element} element - The element.
+     */
+    assignable: (element: Element): boolean =>
+      attribute !== 'id' || !element.id || uidRe.test(element.id),
+    /**
+     * Write a UID to the element's attribute.
+     * @param {Element} element - The element.
+     * @param {string} uid - The UID string.
+     */
+    write: (element: Element, uid: string) => {
+      if (attribute !== false && element.getAttribute(attribute) !== uid) {
+        element.setAttribute(attribute, uid);
+      }
+    },
+    /**
+     * List the elements matching the selector in a node and its descendants.
+     * @param {Node} node - The added or removed node.
+     */
+    matches: (node: Node): Element[] => {
+      if (node.nodeType !== 1) return [];
+      const element = node as Element;
+      const found = Array.from(element.querySelectorAll(selector));
+      if (element.matches(selector)) found.unshift(element);
+      return found;
+    },
+    /**
+     * Assign a UID to each element that doesn't have one, in a single transaction.
+     * UIDs already held by an element's attribute are imported first.
+     * @param {Element[]} elements - The elements.
+     */
+    assign: (elements: Element[]) => {
+      const manager = self.manager;
+      const pending = elements.filter(
+        (element, i) =>
+          elements.indexOf(element) === i &&
+          !manager.hasUIDFor(element) &&
+          self.assignable(element)
+      );
+      if (!pending.length) return;
+      manager.transaction(() => {
+        if (attribute !== false) {
+          const adopted = pending
+            .filter((element) => element.hasAttribute(attribute))
+            .map((element): [Element, string] => [
+              element,
+              element.getAttribute(attribute),
+            ]);
+          if (adopted.length) {
+            manager.importEntries(adopted, { mode: 'merge' });
+          }
+        }
+        pending.forEach((element) => {
+          if (!manager.hasUIDFor(element)) manager.generateUIDFor(element);
+        });
+      });
+      pending.forEach((element) =>
+        self.write(element, manager.getUIDFor(element))
+      );
+    },
+    /**
+     * Assign UIDs to added elements and release the UIDs of elements no longer in
+     * `root`. A moved element is removed and added again, and keeps its UID.
+     * @param {MutationRecord[]} records - The observed mutations.
+     */
+    process: (records: MutationRecord[]) => {
+      const added: Element[] = [];
+      const removed: Element[] = [];
+      records.forEach((record) => {
+        record.addedNodes.forEach((node) => added.push(...self.matches(node)));
+        record.removedNodes.forEach((node) =>
+          removed.push(...self.matches(node))
+        );
+      });
+      const gone = removed.filter(
+        (element) => !root.contains(element) && self.manager.hasUIDFor(element)
+      );
+      if (gone.length) self.manager.deleteEntriesForKeys(gone);
+      self.assign(added.filter((element) => root.contains(element)));
+    },
+  };
+
+  const _self = {
+    /**
+     * The manager holding the elements.
+     */
+    manager: self.manager,
+
+    /**
+     * Retrieve the UID of an element, assigning one if it doesn't have one.
+     * @param {Element} element - The element.
+     * @returns The UID `string`, or `undefined` if the attribute is `id` and the
+     * element's id isn't a UID.
+     */
+    assign: (element: Element): string | undefined => {
+      self.assign([element]);
+      return self.manager.getUIDFor(element);
+    },
+
+    /**
+     * Retrieve the UID of an element without assigning one.
+     * @param {Element} element - The element.
+     * @returns The UID `string`, or `undefined` if it doesn't have one.
+     */
+    getUIDFor: (element: Element): string | undefined =>
+      self.manager.getUIDFor(element),
+
+    /**
+     * Resolve an element from its UID. The UID may be given in any form, eg. base64url
+     * or uppercase.
+     * @param {string} uid - The UID string.
+     * @returns The `Element`, or `undefined` if no element holds the UID.
+     */
+    getElementFor: (uid: string): Element | undefined =>
+      self.manager.getKeyFor(uid),
+
+    /**
+     * Release the UID of an element and remove it from the element's attribute.
+     * @param {Element} element - The element.
+     * @returns `true` if the element had a UID.
+     */
+    release: (element: Element): boolean => {
+      if (!self.manager.deleteEntryForKey(element)) return false;
+      if (attribute !== false) element.removeAttribute(attribute);
+      return true;
+    },
+
+    /**
+     * Assign a UID to every element in `root` matching the selector that doesn't have
+     * one. Called when the helper is created, and by the observer for added elements.
+     * @returns The UIDs of the matching elements, in document order. Elements that
+     * keep an id that isn't a UID are left out.
+     */
+    scan: (): string[] => {
+      if (selector === undefined) return [];
+      const elements =
+        root.nodeType === 1
+          ? self.matches(root)
+          : Array.from(root.querySelectorAll(selector));
+      self.assign(elements);
+      return elements
+        .map((element) => self.manager.getUIDFor(element))
+        .filter((uid) => uid !== undefined);
+    },
+
+    /**
+     * Process the pending mutations now instead of when the observer is called.
+     */
+    flush: () => {
+      if (self.observer) self.process(self.observer.takeRecords());
+    },
+
+    /**
+     * Stop observing `root`. Assigned UIDs are kept.
+     */
+    disconnect: () => {
+      if (!self.observer) return;
+      _self.flush();
+      self.observer.disconnect();
+      self.observer = undefined;
+    },
+  };
+
+  if (selector !== undefined) {
+    _self.scan();
+    self.observer = new MutationObserver(self.process);
+    self.observer.observe(root, { childList: true, subtree: true });
+  }
+
+  Object.freeze(_self);
+
+  return _self;
+};
@@ -0,0 +1,336 @@
+/**
+ * @file KDUIDEncoding.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDEncode, KDUIDDecode, KDUIDCandidates`
+ * Convert unique identifiers between the canonical hyphenated hex form and compact
+ * or decorated forms: uppercase, braced, URN, Crockford base32, base58, base64url
+ * and raw bytes.
+ */
+
+/**
+ * Forms a unique identifier can be encoded as.
+ *
+ * - `hex` canonical lowercase, `aa97b177-9383-4934-8543-0f91a7a02836`
+ * - `upper` uppercase, `AA97B177-9383-4934-8543-0F91A7A02836`
+ * - `braced` `{aa97b177-9383-4934-8543-0f91a7a02836}`
+ * - `urn` `urn:uuid:aa97b177-9383-4934-8543-0f91a7a02836`
+ * - `base32` 26 character Crockford base32, `5AJYRQF4W394T8AGRFJ6KT0A1P`
+ * - `base58` 22 character base58 (bitcoin alphabet) padded with `1`, `N4oKyD3ax7HiZzeMDBBYWR`
+ * - `base64url` 22 character unpadded base64url, `qpexd5ODSTSFQw-Rp6AoNg`
+ * - `bytes` a 16 byte `Uint8Array`
+ */
+export type KDUIDEncoding =
+  | 'hex'
+  | 'upper'
+  | 'braced'
+  | 'urn'
+  | 'base32'
+  | 'base58'
+  | 'base64url'
+  | 'bytes';
+
+const base32Alphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const base58Alphabet =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const base64urlAlphabet =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const hexRe = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const base32Re = /^[0-7][0-9A-TV-Z]{25}$/i;
+const base58Re = /^[1-9A-HJ-NP-Za-km-z]{22}$/;
+const base64urlRe = /^[A-Za-z0-9_-]{21}[AQgw]$/;
+
+/**
+ * Format 16 bytes as the canonical hyphenated lowercase hex form.
+ * @param {Uint8Array} bytes - The 16 identifier bytes.
+ * @returns {string}
+ */
+const toHex = (bytes: Uint8Array): string => {
+  const hex = Array.from(bytes)
+    .map((byte) => (byte < 16 ? '0' : '') + byte.toString(16))
+    .join('');
+  return (
+    `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-` +
+    `${hex.slice(16, 20)}-${hex.slice(20)}`
+  );
+};
+
+/**
+ * Parse the hyphenated hex form into 16 bytes.
+ * @param {string} uid - The UID string.
+ * @returns {Uint8Array}
+ */
+const fromHex = (uid: string): Uint8Array => {
+  const hex = uid.replace(/-/g, '');
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Read the bytes as a stream of `bits`-sized digits, most significant first, after
+ * `pad` leading zero bits.
+ * @param {Uint8Array} bytes - The 16 identifier bytes.
+ * @param {number} bits - Bits per digit.
+ * @param {number} pad - Leading zero bits so the total divides evenly.
+ * @returns {number[]}
+ */
+const toDigits = (bytes: Uint8Array, bits: number, pad: number): number[] => {
+  const digits: number[] = [];
+  let buffer = 0;
+  let count = pad;
+  bytes.forEach((byte) => {
+    buffer = (buffer << 8) | byte;
+    count += 8;
+    while (count >= bits) {
+      count -= bits;
+      digits.push((buffer >> count) & ((1 << bits) - 1));
+    }
+  });
+  if (count > 0) digits.push((buffer << (bits - count)) & ((1 << bits) - 1));
+  return digits;
+};
+
+/**
+ * Inverse of `toDigits`.
+ * @param {number[]} digits - Digits of `bits` bits each.
+ * @param {number} bits - Bits per digit.
+ * @param {number} pad - Leading zero bits to drop.
+ * @returns {Uint8Array}
+ */
+const fromDigits = (
+  digits: number[],
+  bits: number,
+  pad: number
+): Uint8Array => {
+  const bytes = new Uint8Array(16);
+  let buffer = 0;
+  let count = -pad;
+  let index = 0;
+  digits.forEach((digit) => {
+    buffer = ((buffer << bits) | digit) & 0xffff;
+    count += bits;
+    if (count >= 8 && index < 16) {
+      count -= 8;
+      bytes[index++] = (buffer >> count) & 0xff;
+    }
+  });
+  return bytes;
+};
+
+/**
+ * Encode 16 bytes as base58, zero padded to 22 characters.
+ * @param {Uint8Array} bytes - The 16 identifier bytes.
+ * @returns {string}
+ */
+const toBase58 = (bytes: Uint8Array): string => {
+  const digits: number[] = [];
+  let value = Array.from(bytes);
+  while (value.some((byte) => byte !== 0)) {
+    let remainder = 0;
+    value = value.map((byte) => {
+      const acc = remainder * 256 + byte;
+      remainder = acc % 58;
+      return Math.floor(acc / 58);
+    });
+    digits.unshift(remainder);
+  }
+  while (digits.length < 22) digits.unshift(0);
+  return digits.map((digit) => base58Alphabet[digit]).join('');
+};
+
+/**
+ * Decode base58 into 16 bytes, or `undefined` if the value exceeds 128 bits.
+ * @param {string} value - The base58 string.
+ * @returns {Uint8Array | undefined}
+ */
+const fromBase58 = (value: string): Uint8Array | undefined => {
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < value.length; i++) {
+    let carry = base58Alphabet.indexOf(value[i]);
+    for (let j = 15; j >= 0; j--) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    if (carry > 0) return;
+  }
+  return bytes;
+};
+
+/**
+ * Unix milliseconds a time-based identifier (versions 1, 6 and 7) was minted at.
+ * Gregorian timestamps lose precision past 2^53, which doesn't matter for a
+ * comparison with the clock.
+ * @param {Uint8Array} bytes - The 16 identifier bytes.
+ * @returns {number | undefined} `undefined` for other versions.
+ */
+const mintedAt = (bytes: Uint8Array): number | undefined => {
+  const read = (start: number, end: number) =>
+    bytes.slice(start, end).reduce((acc, byte) => acc * 256 + byte, 0);
+  const version = bytes[6] >>> 4;
+  if (version === 7) return read(0, 6);
+  if (version !== 1 && version !== 6) return;
+  const ticks =
+    version === 1
+      ? ((bytes[6] & 0x0f) * 0x1000000 + bytes[7] * 0x10000 + read(4, 6)) *
+          0x100000000 +
+        read(0, 4)
+      : read(0, 6) * 0x1000 + (bytes[6] & 0x0f) * 0x100 + bytes[7];
+  return ticks / 10000 - 12219292800000;
+};
+
+/**
+ * Check that a compact reading is an identifier `KDUID` could have minted: the nil or
+ * max UID, or a generated version with the RFC 9562 variant and, if time-based, a
+ * timestamp no more than a day ahead of the clock. Compact alphabets overlap with
+ * ordinary words, eg. `primaryNavigationLinkA` reads as base64url, so a reading
+ * that merely decodes isn't taken as a UID.
+ * @param {Uint8Array} bytes - The 16 identifier bytes.
+ * @returns {boolean}
+ */
+const plausible = (bytes: Uint8Array): boolean => {
+  if (bytes.every((byte) => byte === 0) || bytes.every((byte) => byte === 255))
+    return true;
+  if (![1, 3, 4, 5, 6, 7].includes(bytes[6] >>> 4)) return false;
+  if (bytes[8] >>> 6 !== 2) return false;
+  const minted = mintedAt(bytes);
+  return minted === undefined || minted <= Date.now() + 86400000;
+};
+
+/**
+ * Read a UID as bytes from any of its forms. 22 character strings can be valid as
+ * both base64url and base58, in which case the base64url reading comes first.
+ * @param {string | Uint8Array} value - The UID in any form.
+ * @returns {Uint8Array[]} Every possible reading, empty if none. Compact readings
+ * must be `plausible`.
+ */
+const readBytes = (value: string | Uint8Array): Uint8Array[] => {
+  if (value instanceof Uint8Array) {
+    return value.length === 16 ? [Uint8Array.from(value)] : [];
+  }
+  if (typeof value !== 'string') return [];
+  let str = value.trim();
+  if (/^urn:uuid:/i.test(str)) str = str.slice(9);
+  else if (str[0] === '{' && str[str.length - 1] === '}')
+    str = str.slice(1, -1);
+
+  if (hexRe.test(str)) return [fromHex(str)];
+
+  const readings: Uint8Array[] = [];
+  // A compact reading counts only if it encodes back to the same string
+  const read = (bytes: Uint8Array, encoded: string, expected: string) => {
+    if (encoded === expected && plausible(bytes)) readings.push(bytes);
+  };
+  if (base32Re.test(str)) {
+    const normalized = str
+      .toUpperCase()
+      .replace(/[IL]/g, '1')
+      .replace(/O/g, '0');
+    const bytes = fromDigits(
+      normalized.split('').map((char) => base32Alphabet.indexOf(char)),
+      5,
+      2
+    );
+    const encoded = toDigits(bytes, 5, 2)
+      .map((digit) => base32Alphabet[digit])
+      .join('');
+    read(bytes, encoded, normalized);
+  }
+  if (base64urlRe.test(str)) {
+    const digits = str.split('').map((char) => base64urlAlphabet.indexOf(char));
+    const bytes = fromDigits(digits, 6, 0);
+    const encoded = toDigits(bytes, 6, 0)
+      .map((digit) => base64urlAlphabet[digit])
+      .join('');
+    read(bytes, encoded, str);
+  }
+  if (base58Re.test(str)) {
+    const bytes = fromBase58(str);
+    if (bytes) read(bytes, toBase58(bytes), str);
+  }
+  return readings;
+};
+
+/**
+ * Every canonical (lowercase, hyphenated) reading of a UID given in any form. Most
+ * forms have exactly one reading; 22 character strings may have two.
+ * @param {string | Uint8Array} value - The UID in any form.
+ * @returns {string[]}
+ */
+export const KDUIDCandidates = (value: string | Uint8Array): string[] =>
+  typeof value === 'string' && hexRe.test(value)
+    ? [value.toLowerCase()]
+    : readBytes(value).map(toHex);
+
+/**
+ * Convert a UID given in any form to its canonical lowercase hyphenated form. The
+ * first reading that is a valid RFC 9562 identifier is preferred.
+ * @param {string | Uint8Array} value - The UID in any form.
+ * @returns {string | undefined} The canonical UID, or `undefined` if unreadable.
+ */
+export const KDUIDDecode = (value: string | Uint8Array): string | undefined => {
+  const candidates = KDUIDCandidates(value);
+  const valid = candidates.find((uid) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$|^0{8}-0{4}-0{4}-0{4}-0{12}$|^f{8}-f{4}-f{4}-f{4}-f{12}$/.test(
+      uid
+    )
+  );
+  return valid || candidates[0];
+};
+
+/**
+ * Convert a UID given in any form to the given encoding. String encodings keep the
+ * type of the input, so a branded UID stays branded.
+ * @param {string | Uint8Array} uid - The UID in any form.
+ * @param {KDUIDEncoding} encoding - The target form.
+ * @returns The encoded UID, or `undefined` if the input is unreadable.
+ */
+export function KDUIDEncode(
+  uid: string | Uint8Array,
+  encoding: 'bytes'
+): Uint8Array | undefined;
+export function KDUIDEncode<T extends string>(
+  uid: T | Uint8Array,
+  encoding: Exclude<KDUIDEncoding, 'bytes'>
+): T | undefined;
+export function KDUIDEncode(
+  uid: string | Uint8Array,
+  encoding: KDUIDEncoding
+): string | Uint8Array | undefined;
+export function KDUIDEncode(
+  uid: string | Uint8Array,
+  encoding: KDUIDEncoding
+): string | Uint8Array | undefined {
+  const hex = KDUIDDecode(uid);
+  if (hex === undefined) return;
+  const bytes = fromHex(hex);
+  switch (encoding) {
+    case 'hex':
+      return hex;
+    case 'upper':
+      return hex.toUpperCase();
+    case 'braced':
+      return `{${hex}}`;
+    case 'urn':
+      return `urn:uuid:${hex}`;
+    case 'base32':
+      return toDigits(bytes, 5, 2)
+        .map((digit) => base32Alphabet[digit])
+        .join('');
+    case 'base58':
+      return toBase58(bytes);
+    case 'base64url':
+      return toDigits(bytes, 6, 0)
+        .map((digit) => base64urlAlphabet[digit])
+        .join('');
+    case 'bytes':
+      return bytes;
+  }
+  throw new TypeError(`KDUIDEncode - unknown encoding ${encoding}`);
+}
@@ -0,0 +1,194 @@
+/**
+ * @file KDUIDHash.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const md5, sha1, utf8`
+ * Minimal synchronous MD5 and SHA-1 digests used to derive RFC 9562 name-based
+ * (version 3 and version 5) unique identifiers. These are not intended for any
+ * security-sensitive use.
+ */
+
+/**
+ * Encode a string as UTF-8 bytes without relying on `TextEncoder`.
+ * @param {string} str - The string to encode.
+ * @returns {Uint8Array} UTF-8 encoded bytes.
+ */
+export const utf8 = (str: string): Uint8Array => {
+  const out: number[] = [];
+  for (let i = 0; i < str.length; i++) {
+    let code = str.charCodeAt(i);
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < str.length) {
+      const next = str.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) out.push(code);
+    else if (code < 0x800) out.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    else if (code < 0x10000)
+      out.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    else
+      out.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+  }
+  return new Uint8Array(out);
+};
+
+/**
+ * Pad a message into 32-bit words as required by MD5 and SHA-1. Both append a
+ * single `1` bit, zero fill, and end with the 64-bit message length in bits.
+ * @param {Uint8Array} bytes - The message.
+ * @param {boolean} bigEndian - SHA-1 is big-endian, MD5 is little-endian.
+ * @returns {Uint32Array} The padded message as 32-bit words.
+ */
+const pad = (bytes: Uint8Array, bigEndian: boolean): Uint32Array => {
+  const length = bytes.length;
+  const words = new Uint32Array((((length + 8) >> 6) + 1) * 16);
+  const shift = (i: number) => (bigEndian ? 24 - (i % 4) * 8 : (i % 4) * 8);
+  for (let i = 0; i < length; i++) words[i >> 2] |= bytes[i] << shift(i);
+  words[length >> 2] |= 0x80 << shift(length);
+  const low = (length * 8) >>> 0;
+  const high = Math.floor((length * 8) / 0x100000000) >>> 0;
+  words[words.length - (bigEndian ? 1 : 2)] = low;
+  words[words.length - (bigEndian ? 2 : 1)] = high;
+  return words;
+};
+
+/**
+ * Write 32-bit words out as bytes.
+ * @param {number[]} words - The digest words.
+ * @param {boolean} bigEndian - Byte order of each word.
+ * @returns {Uint8Array}
+ */
+const toBytes = (words: number[], bigEndian: boolean): Uint8Array => {
+  const out = new Uint8Array(words.length * 4);
+  words.forEach((word, i) => {
+    for (let b = 0; b < 4; b++) {
+      const shift = bigEndian ? 24 - b * 8 : b * 8;
+      out[i * 4 + b] = (word >>> shift) & 0xff;
+    }
+  });
+  return out;
+};
+
+const rotl = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+
+/**
+ * Per-round constants for MD5, `floor(abs(sin(i + 1)) * 2^32)`.
+ */
+const md5K: number[] = Array(64)
+  .fill(null)
+  .map((_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+/**
+ * Per-round shift amounts for MD5.
+ */
+const md5S: number[] = [
+  [7, 12, 17, 22],
+  [5, 9, 14, 20],
+  [4, 11, 16, 23],
+  [6, 10, 15, 21],
+].reduce((acc, row) => acc.concat(row, row, row, row), [] as number[]);
+
+/**
+ * Compute the MD5 digest of a message.
+ * @param {Uint8Array} bytes - The message.
+ * @returns {Uint8Array} The 16 byte digest.
+ */
+export const md5 = (bytes: Uint8Array): Uint8Array => {
+  const words = pad(bytes, false);
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  for (let block = 0; block < words.length; block += 16) {
+    let [a, b, c, d] = [a0, b0, c0, d0];
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + md5K[i] + words[block + g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + rotl(sum, md5S[i])) | 0;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+  return toBytes([a0, b0, c0, d0], false);
+};
+
+/**
+ * Compute the SHA-1 digest of a message.
+ * @param {Uint8Array} bytes - The message.
+ * @returns {Uint8Array} The 20 byte digest.
+ */
+export const sha1 = (bytes: Uint8Array): Uint8Array => {
+  const words = pad(bytes, true);
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Array<number>(80);
+  for (let block = 0; block < words.length; block += 16) {
+    for (let i = 0; i < 80; i++) {
+      w[i] =
+        i < 16
+          ? words[block + i] | 0
+          : rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    }
+    let [a, b, c, d, e] = h;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (rotl(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = temp;
+    }
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+    h[4] = (h[4] + e) | 0;
+  }
+  return toBytes(h, true);
+};
@@ -10,25 +10,1387 @@
  * identifiers are unique.
  */
 
-import { KDUID } from './KDUID';
+import { KDUID, KDUIDInstance } from './KDUID';
+import {
+  KDUIDCanonical,
+  KDUIDContentNamespace,
+  KDUIDContentOptions,
+} from './KDUIDContent';
+import { KDUIDCandidates, KDUIDDecode } from './KDUIDEncoding';
+import { KDUIDSeedState } from './KDUIDRandom';
+import { KDUIDStorageAdapter, KDUIDStoredState } from './KDUIDStorage';
+import { KDUIDSyncPeer, KDUIDSyncTransport } from './KDUIDSync';
+
+/**
+ * A UID string branded with the kind of entity it identifies, so UIDs from different
+ * managers can't be mixed up. Any `string` is a `Uid` once asserted.
+ *
+ * @example
+ * const users = KDUIDManager<User, Uid<'User'>>();
+ * const documents = KDUIDManager<Doc, Uid<'Document'>>();
+ * const uid = users.generateUIDFor(user); // Uid<'User'>
+ * documents.getKeyFor(uid); // type error
+ */
+export type Uid<Brand extends string = string> = string & {
+  readonly __uidBrand: Brand;
+};
+
+/**
+ * The result of `setEntries`. `changed` holds any entries where the UID had to be
+ * changed, and `invalid` holds any entries that were not able to be added.
+ */
+export type KDUIDSetEntriesResult<K = any, U extends string = string> = {
+  changed: [K, U][];
+  invalid: [K, string][];
+};
+
+/**
+ * How `importEntries` combines the incoming entries with the current ones.
+ *
+ * - `replace` clears the current entries first.
+ * - `merge` keeps the current entries. An incoming key that already exists is a
+ * duplicate key conflict.
+ * - `upsert` keeps the current entries and updates the UID of an incoming key that
+ * already exists.
+ */
+export type KDUIDImportMode = 'replace' | 'merge' | 'upsert';
+
+/**
+ * How `importEntries` settles a conflict between an incoming entry and an entry that
+ * already exists, or appeared earlier in the import.
+ *
+ * - `keep` skips the incoming entry.
+ * - `take` uses the incoming entry. For a duplicate UID, the entry holding it is removed.
+ * - `regenerate` generates a new UID for the incoming key, reported in `changed`.
+ * - `reject` skips the incoming entry and reports it in `invalid`.
+ */
+export type KDUIDConflictPolicy = 'keep' | 'take' | 'regenerate' | 'reject';
+
+/**
+ * Options for `importEntries`.
+ */
+export type KDUIDImportOptions = {
+  /**
+   * Defaults to `'replace'`. See `KDUIDImportMode`.
+   */
+  mode?: KDUIDImportMode;
+
+  /**
+   * Settles an incoming key that already has a UID. Defaults to `'keep'` for `merge`
+   * and `'take'` otherwise, so the last UID given for a key wins.
+   */
+  onDuplicateKey?: KDUIDConflictPolicy;
+
+  /**
+   * Settles an incoming UID already held by another key. Defaults to `'regenerate'`.
+   */
+  onDuplicateUID?: KDUIDConflictPolicy;
+
+  /**
+   * Plan the import and return the report without changing anything. UIDs that would
+   * be regenerated are reported in `changed` with their incoming UID.
+   */
+  dryRun?: boolean;
+};
+
+/**
+ * A conflict found by `importEntries`. `entry` is the incoming entry, and `existing`
+ * is the entry it conflicts with at that point of the import.
+ */
+export type KDUIDImportConflict<K = any, U extends string = string> = {
+  type: 'key' | 'uid';
+  entry: [K, string];
+  existing: [K, U];
+  resolution: KDUIDConflictPolicy;
+};
+
+/**
+ * The result of `importEntries`: the `setEntries` report and every conflict found.
+ */
+export type KDUIDImportResult<
+  K = any,
+  U extends string = string
+> = KDUIDSetEntriesResult<K, U> & {
+  conflicts: KDUIDImportConflict<K, U>[];
+};
+
+/**
+ * The problems found by `KDUIDManager.verify()`. `ok` is `true` if there are none;
+ * `stale` UIDs are not counted, as they only keep the generator from issuing them.
+ */
+export type KDUIDVerifyReport<K = any, U extends string = string> = {
+  ok: boolean;
+
+  /**
+   * UIDs held by more than one key, in any form, with every entry holding them.
+   */
+  duplicates: { uid: string; entries: [K, U][] }[];
+
+  /**
+   * Entries whose UID isn't a valid RFC 9562 identifier.
+   */
+  malformed: [K, string][];
+
+  /**
+   * Entries whose key can't be held: `undefined`, which `getKeyFor` can't tell apart
+   * from a missing key, or in content mode a value that was changed after its UID was
+   * derived from it.
+   */
+  invalidKeys: [K, U][];
+
+  /**
+   * Held UIDs the generator doesn't know, so it could issue them again.
+   */
+  missing: U[];
+
+  /**
+   * Values held by the generator that aren't valid RFC 9562 identifiers.
+   */
+  malformedExisting: string[];
+
+  /**
+   * UIDs held by the generator that no entry holds and that aren't retired. Only listed
+   * if the generator's retention can list its UIDs.
+   */
+  stale: string[];
+
+  /**
+   * UIDs in the reverse index or the metadata that no entry holds.
+   */
+  orphaned: string[];
+};
+
+/**
+ * How `KDUIDManager.repair()` fixes the problems `verify` finds.
+ */
+export type KDUIDRepairPolicy = {
+  /**
+   * Entries with a malformed or duplicate UID, or a changed content key, are given a
+   * new UID with `regenerate` or removed with `drop`. The entry the reverse index points
+   * at keeps a duplicate UID. Defaults to `'regenerate'`.
+   */
+  entries?: 'regenerate' | 'drop';
+
+  /**
+   * Stale UIDs are left in the generator with `keep`, so they are never issued, or
+   * removed with `release`. Defaults to `'keep'`.
+   */
+  stale?: 'keep' | 'release';
+};
+
+/**
+ * What `KDUIDManager.repair()` changed. Entries with an `undefined` key are always
+ * dropped, missing UIDs are always claimed, and malformed values are always removed
+ * from the generator.
+ */
+export type KDUIDRepairReport<K = any, U extends string = string> = {
+  regenerated: { key: K; uid: U; previous: string }[];
+  dropped: [K, string][];
+  /**
+   * Missing UIDs added to the generator.
+   */
+  claimed: U[];
+  /**
+   * Stale and malformed values removed from the generator.
+   */
+  released: string[];
+  /**
+   * Orphaned UIDs removed from the reverse index and the metadata.
+   */
+  removed: string[];
+};
+
+/**
+ * What a `KDUIDManager` records about each entry. Times are read from the manager's
+ * `clock`. `accessed` is updated by `getUIDFor` and `getKeyFor`, and `expires` is only
+ * set for entries with a TTL.
+ */
+export type KDUIDEntryMeta<M = any> = {
+  meta?: M;
+  created: number;
+  accessed: number;
+  expires?: number;
+};
+
+/**
+ * Options for `generateUIDFor`.
+ */
+export type KDUIDEntryOptions<M = any> = {
+  /**
+   * Any value to keep with the entry. See `getMetaFor`.
+   */
+  meta?: M;
+
+  /**
+   * Milliseconds until the entry expires. Overrides the manager's `ttl`. `0` or
+   * `Infinity` never expires.
+   */
+  ttl?: number;
+};
+
+/**
+ * Options for `KDUIDManager.page`.
+ */
+export type KDUIDPageOptions = {
+  /**
+   * The `cursor` of the previous page. Starts from the first entry if not given.
+   */
+  cursor?: string;
+
+  /**
+   * The most entries to return. Defaults to `100`.
+   */
+  limit?: number;
+};
+
+/**
+ * A page of entries from `KDUIDManager.page`. `cursor` is `undefined` on the last page.
+ */
+export type KDUIDPage<K = any, U extends string = string> = {
+  entries: [K, U][];
+  cursor?: string;
+};
+
+/**
+ * The changes between two snapshots. `changed` holds the keys whose UID was
+ * regenerated.
+ */
+export type KDUIDSnapshotDiff<K = any, U extends string = string> = {
+  added: [K, U][];
+  removed: [K, U][];
+  changed: { key: K; uid: U; previous: U }[];
+};
+
+/**
+ * An immutable list of a manager's entries at one point in time. See
+ * `KDUIDManager.snapshot`.
+ */
+export type KDUIDSnapshot<K = any, U extends string = string> = {
+  readonly size: number;
+  readonly entries: ReadonlyArray<readonly [K, U]>;
+  /**
+   * Compare with a later snapshot of the same manager.
+   * @param {KDUIDSnapshot} later - The later snapshot.
+   * @returns {KDUIDSnapshotDiff}
+   */
+  diff: (later: KDUIDSnapshot<K, U>) => KDUIDSnapshotDiff<K, U>;
+};
+
+/**
+ * The current version of the state payload produced by `KDUIDManager.toJSON()`.
+ */
+export const KDUIDManagerStateVersion = 1;
+
+/**
+ * Convert managed keys to JSON-friendly descriptors and resolve them again on restore.
+ * `decode` may return `undefined` if a descriptor can no longer be resolved, in which
+ * case the entry is reported as invalid.
+ *
+ * @example `Objects saved by id`
+ * const codec = {
+ *   encode: (user) => user.id,
+ *   decode: (id) => users.find((user) => user.id === id),
+ * };
+ */
+export type KDUIDKeyCodec<K = any, D = any> = {
+  encode: (key: K) => D;
+  decode: (descriptor: D) => K | undefined;
+};
+
+/**
+ * Versioned, JSON-friendly snapshot of a `KDUIDManager`. `entries` holds
+ * `[descriptor, uid]` pairs, `existing` holds the generator's previously
+ * generated UIDs and `meta` holds the metadata of each entry by UID. `tombstones` holds
+ * the time each retired UID was retired, if tombstones are enabled, and `seed` holds
+ * the position of a seeded generator.
+ */
+export type KDUIDManagerState<D = any> = {
+  version: number;
+  entries: [D, string][];
+  existing: string[];
+  meta?: { [uid: string]: KDUIDEntryMeta };
+  tombstones?: { [uid: string]: number };
+  seed?: KDUIDSeedState;
+};
+
+/**
+ * Codec used when none is given. Keys are stored as-is, so they must already be
+ * JSON-friendly.
+ */
+const identityCodec: KDUIDKeyCodec = {
+  encode: (key) => key,
+  decode: (descriptor) => descriptor,
+};
+
+/**
+ * Options for the `KDUIDManager` factory.
+ */
+export type KDUIDManagerOptions<U extends string = string, K = any> = {
+  /**
+   * Hold object and function targets weakly so they can be garbage-collected without
+   * calling `deleteEntryForKey`. Primitive targets are still held strongly. Requires
+   * `WeakRef` and `FinalizationRegistry`.
+   *
+   * In weak mode `keys`, `uids`, `entries` and `toJSON` only include targets that have
+   * not been collected, and an entry is removed (and its UID released) some time after
+   * its target is collected, when the runtime runs finalizers.
+   */
+  weak?: boolean;
+
+  /**
+   * Called with the UID of an entry removed in weak mode because its target was
+   * garbage-collected.
+   */
+  onReclaim?: (uid: U) => void;
+
+  /**
+   * The generator used to create and release UIDs. Defaults to a new `KDUID()`. Pass a
+   * shared generator (see `KDUIDRegistry`) to keep UIDs unique across managers.
+   */
+  generator?: KDUIDInstance;
+
+  /**
+   * Check if a UID is already used outside this manager. `setEntries` and `fromJSON`
+   * generate a new UID for any entry whose UID is claimed.
+   */
+  isClaimed?: (uid: string) => boolean;
+
+  /**
+   * Persist the manager with a storage adapter, eg. `KDUIDLocalStorage()`. The state
+   * is hydrated from storage when the manager is created, and written on every change.
+   * See `ready`.
+   */
+  storage?: KDUIDStorageAdapter;
+
+  /**
+   * Wait until no change has happened for this many milliseconds before writing to
+   * `storage`. Defaults to `0`, writing on every change. See `flush`.
+   */
+  debounce?: number;
+
+  /**
+   * Keep this manager in agreement with managers in other tabs or workers connected to
+   * the same transport, eg. a `BroadcastChannel`. Generated, deleted and replaced
+   * entries are spread to every peer, and every peer's generator store holds the UIDs
+   * issued by all of them. See `KDUIDSyncPeer` for how conflicts are settled.
+   */
+  sync?: KDUIDSyncTransport;
+
+  /**
+   * Converts keys to JSON-friendly descriptors for `storage` and `sync`. See
+   * `KDUIDKeyCodec`.
+   */
+  codec?: KDUIDKeyCodec<K, any>;
+
+  /**
+   * Returns the current time in milliseconds, used to timestamp entries and expire
+   * them. Defaults to `Date.now`.
+   */
+  clock?: () => number;
+
+  /**
+   * Milliseconds until each new entry expires, unless `generateUIDFor` is given its
+   * own. Expired entries are dropped the next time they are looked up, and are left
+   * out of `keys`, `uids`, `entries` and `toJSON`. See `sweep`. Defaults to `0`, never
+   * expiring.
+   */
+  ttl?: number;
+
+  /**
+   * Keep the UID of every deleted, expired, reclaimed or reset entry as a tombstone, so
+   * the generator never reissues it and `setEntries` never reuses it. Tombstones are
+   * saved by `toJSON`. See `isRetired` and `purgeTombstones`.
+   */
+  tombstones?: boolean;
+
+  /**
+   * Map plain values by content instead of identity. The UID of a value is derived from
+   * its canonical serialization (see `KDUIDCanonical`) as a name-based UID, so
+   * structurally equal values share one entry and get the same UID in every session
+   * and on every machine. Pass options to set the namespace, version or hash. Can't be
+   * combined with `weak` or `tombstones`.
+   */
+  content?: boolean | KDUIDContentOptions;
+};
+
+/**
+ * Change events emitted to `KDUIDManager.subscribe()` listeners.
+ *
+ * - `added` a UID was generated for a new target.
+ * - `regenerated` a new UID replaced the `previous` UID of an existing target.
+ * - `deleted` an entry was deleted by UID or by key.
+ * - `reclaimed` an entry was removed in weak mode because its target was collected.
+ * - `expired` an entry was removed because its TTL ran out.
+ * - `reset` all entries were cleared.
+ * - `entriesReplaced` all entries were replaced by `setEntries`, `importEntries` or
+ * `fromJSON`. Holds
+ * the resulting `entries` and the same `changed`/`invalid` report `setEntries` returns.
+ * - `batch` a transaction was committed. Holds the `events` of every change made in it,
+ * in order.
+ */
+export type KDUIDManagerEvent<K = any, U extends string = string> =
+  | { type: 'added'; key: K; uid: U }
+  | { type: 'regenerated'; key: K; uid: U; previous: U }
+  | { type: 'deleted'; key: K; uid: U }
+  | { type: 'reclaimed'; uid: U }
+  | { type: 'expired'; key: K; uid: U }
+  | { type: 'reset' }
+  | ({ type: 'entriesReplaced'; entries: [K, U][] } & KDUIDSetEntriesResult<
+      K,
+      U
+    >)
+  | { type: 'batch'; events: KDUIDManagerEvent<K, U>[] };
+
+/**
+ * Receives every change event emitted by a `KDUIDManager`.
+ */
+export type KDUIDManagerListener<K = any, U extends string = string> = (
+  event: KDUIDManagerEvent<K, U>
+) => void;
+
+/**
+ * `WeakRef` and `FinalizationRegistry` as far as they are used here. They are not
+ * part of the configured `lib`.
+ */
+declare class WeakRef<T extends object> {
+  constructor(target: T);
+  deref(): T | undefined;
+}
+declare class FinalizationRegistry<T> {
+  constructor(cleanup: (held: T) => void);
+  register(target: object, held: T, token?: object): void;
+  unregister(token: object): boolean;
+}
+
+/**
+ * Check if a value can be held weakly.
+ * @param {any} target - The entity reference.
+ * @returns {boolean}
+ */
+const isWeakable = (target: any): target is object =>
+  (typeof target === 'object' && target !== null) ||
+  typeof target === 'function';
+
+/**
+ * Create a frozen snapshot of the given entries.
+ * @param {ReadonlyArray<readonly [K, U]>} entries - Frozen entries, shared with other
+ * snapshots where unchanged.
+ * @returns {KDUIDSnapshot}
+ */
+const createSnapshot = <K, U extends string>(
+  entries: ReadonlyArray<readonly [K, U]>
+): KDUIDSnapshot<K, U> =>
+  Object.freeze({
+    size: entries.length,
+    entries: entries,
+    diff: (later: KDUIDSnapshot<K, U>): KDUIDSnapshotDiff<K, U> => {
+      const diff: KDUIDSnapshotDiff<K, U> = {
+        added: [],
+        removed: [],
+        changed: [],
+      };
+      if (later.entries === entries) return diff;
+      const before = new Map<K, readonly [K, U]>();
+      entries.forEach((entry) => before.set(entry[0], entry));
+      const after = new Set<K>();
+      later.entries.forEach((entry) => {
+        const [key, uid] = entry;
+        const previous = before.get(key);
+        after.add(key);
+        // unchanged entries are shared, so most are settled by identity
+        if (previous === entry) return;
+        if (previous === undefined) diff.added.push([key, uid]);
+        else if (previous[1] !== uid) {
+          diff.changed.push({ key: key, uid: uid, previous: previous[1] });
+        }
+      });
+      entries.forEach(([key, uid]) => {
+        if (!after.has(key)) diff.removed.push([key, uid]);
+      });
+      return diff;
+    },
+  });
 
 /**
  * Generate and manage RFC4122 version 4 compliant unique identifiers
  * with associated objects. Checks internally to absolutely ensure all
  * identifiers are unique.
+ * @template K - The type of the managed keys.
+ * @template U - The UID type, eg. a branded `Uid<'User'>`.
+ * @template M - The type of the metadata kept with each entry.
+ * @param {KDUIDManagerOptions} [options] - Enable weak mode, share a generator or
+ * persist to storage.
  * @returns
  */
-export const KDUIDManager = () => {
+export const KDUIDManager = <K = any, U extends string = string, M = any>(
+  options?: KDUIDManagerOptions<U, K>
+) => {
+  const weak = !!(options && options.weak);
+  const ttl = options && options.ttl;
+  const content: KDUIDContentOptions | undefined =
+    options && options.content
+      ? options.content === true
+        ? {}
+        : options.content
+      : undefined;
+  if (content && (weak || (options && options.tombstones))) {
+    throw new Error(
+      'KDUIDManager - content mode cannot be combined with weak mode or tombstones'
+    );
+  }
+  if (ttl !== undefined && !(typeof ttl === 'number' && ttl >= 0)) {
+    throw new RangeError('KDUIDManager - ttl must be a positive number');
+  }
+  if (
+    weak &&
+    (typeof WeakRef !== 'function' ||
+      typeof FinalizationRegistry !== 'function')
+  ) {
+    throw new Error(
+      'KDUIDManager - weak mode requires WeakRef and FinalizationRegistry'
+    );
+  }
+
   let self = {
-    generator: KDUID(),
-    map: new Map(),
+    generator: (options && options.generator) || KDUID(),
+    map: new Map<K, U>(),
+    /**
+     * Holds object targets in weak mode. Primitive targets stay in `map`.
+     */
+    weakMap: new WeakMap<object, U>(),
+    /**
+     * Reverse index of `map` holding UID strings as keys and target entities as values,
+     * so lookups, deletes and collision checks by UID take constant time. In weak mode,
+     * object targets are held through a `WeakRef`.
+     */
+    index: new Map<string, any>(),
+    /**
+     * Removes entries whose targets were collected in weak mode. Each registration
+     * uses the target's `WeakRef` as its unregister token.
+     */
+    registry: weak
+      ? new FinalizationRegistry<U>((uid) => self.reclaim(uid))
+      : undefined,
+    /**
+     * In content mode, the key holding each canonical serialization, and the canonical
+     * serialization of each key.
+     */
+    byContent: new Map<string, K>(),
+    contents: new Map<K, string>(),
+    /**
+     * Generates content-derived UIDs without recording them.
+     */
+    hasher: content ? KDUID() : undefined,
+    /**
+     * Resolve a target to the managed key. In content mode, this is the key holding an
+     * equal value, if there is one.
+     * @param {any} target - The entity reference.
+     */
+    resolve: (target: K): K => {
+      if (!content) return target;
+      try {
+        const key = self.byContent.get(KDUIDCanonical(target));
+        return key === undefined ? target : key;
+      } catch {
+        return target;
+      }
+    },
+    /**
+     * Derive the content UID of a value.
+     * @param {any} target - The plain value.
+     * @throws {TypeError} If the value isn't serializable or the hash is invalid.
+     */
+    derive: (target: K): U => {
+      const canonical = self.contents.has(target)
+        ? self.contents.get(target)
+        : KDUIDCanonical(target);
+      if (content.hash) {
+        const uid = content.hash(canonical);
+        if (!self.hasher.validate(uid, 'any').length) {
+          throw new TypeError('KDUIDManager - content hash must return a UID');
+        }
+        return uid as U;
+      }
+      const uid = self.hasher.generate({
+        version: content.version || 5,
+        namespace: content.namespace || KDUIDContentNamespace,
+        name: canonical,
+      });
+      self.hasher.deleteExisting(uid);
+      return uid as U;
+    },
+    /**
+     * Check if the target is held weakly.
+     * @param {any} target - The entity reference.
+     */
+    isWeak: (target: K): boolean => weak && isWeakable(target),
+    /**
+     * Check if there is a UID for the target.
+     * @param {any} target - The entity reference.
+     */
+    has: (target: K): boolean =>
+      self.isWeak(target) ? self.weakMap.has(target) : self.map.has(target),
+    /**
+     * Retrieve the UID for the target.
+     * @param {any} target - The entity reference.
+     */
+    get: (target: K): U =>
+      self.isWeak(target) ? self.weakMap.get(target) : self.map.get(target),
+    /**
+     * Resolve a value held in the index to its target, dereferencing a `WeakRef`.
+     * Returns `undefined` if the target has been collected.
+     * @param {any} value - The value held in the index.
+     */
+    deref: (value: any): K =>
+      weak && value instanceof WeakRef ? value.deref() : value,
+    /**
+     * Find a UID as it is held in the index from any of its forms, eg. base64url or
+     * uppercase. See `KDUIDEncoding`.
+     * @param {string} uid - The UID in any form.
+     * @returns {U | undefined} The UID as held, or `undefined` if it isn't managed.
+     */
+    find: (uid: string): U | undefined => {
+      if (self.index.has(uid)) return uid as U;
+      const candidates = KDUIDCandidates(uid);
+      for (let i = 0; i < candidates.length; i++) {
+        const lower = candidates[i];
+        const upper = lower.toUpperCase();
+        if (self.index.has(lower)) return lower as U;
+        if (self.index.has(upper)) return upper as U;
+      }
+      return;
+    },
+    /**
+     * The position each UID was set at, keyed by the UID as held in the index. The
+     * index is in insertion order, so positions only grow along it. Used as the cursor
+     * of `page`.
+     */
+    order: new Map<string, number>(),
+    /**
+     * The last position given out in `order`.
+     */
+    position: 0,
+    /**
+     * Frozen entries shared by snapshots, keyed by the UID as held in the index. Not
+     * kept in weak mode, where they would hold the targets.
+     */
+    frozen: new Map<string, readonly [K, U]>(),
+    /**
+     * Walk every entry whose target is still alive, in insertion order, without
+     * copying the map.
+     * @param {boolean} [expired] - Include entries that have expired but are not yet
+     * removed. Defaults to `false`.
+     * @param {number} [after] - Skip the entries set at or before this position.
+     */
+    walk: function* (
+      expired: boolean = false,
+      after: number = 0
+    ): IterableIterator<[K, U]> {
+      const now = self.clock();
+      for (const [uid, value] of self.index) {
+        if (after && self.order.get(uid) <= after) continue;
+        const target = self.deref(value);
+        if (weak && target === undefined && value instanceof WeakRef) continue;
+        if (!expired && self.expired(uid, now)) continue;
+        yield [target, uid as U];
+      }
+    },
+    /**
+     * List every entry whose target is still alive, in insertion order.
+     * @param {boolean} [expired] - Include entries that have expired but are not yet
+     * removed. Defaults to `false`.
+     */
+    live: (expired: boolean = false): [K, U][] =>
+      Array.from(self.walk(expired)),
+    /**
+     * Returns the current time in milliseconds.
+     */
+    clock: (options && options.clock) || Date.now,
+    /**
+     * Metadata of each entry, keyed by the UID as held in the index.
+     */
+    metas: new Map<string, KDUIDEntryMeta<M>>(),
+    /**
+     * Create the metadata for a new entry.
+     * @param {KDUIDEntryOptions} [entry] - The metadata and TTL of the entry.
+     */
+    record: (entry?: KDUIDEntryOptions<M>): KDUIDEntryMeta<M> => {
+      const now = self.clock();
+      const life = entry && entry.ttl !== undefined ? entry.ttl : ttl;
+      const record: KDUIDEntryMeta<M> = { created: now, accessed: now };
+      if (entry && entry.meta !== undefined) record.meta = entry.meta;
+      if (life > 0 && life < Infinity) record.expires = now + life;
+      return record;
+    },
+    /**
+     * Check if an entry has expired.
+     * @param {string} uid - The UID as held in the index.
+     * @param {number} [now] - The current time. Read from the clock if not given.
+     */
+    expired: (uid: string, now?: number): boolean => {
+      const record = self.metas.get(uid);
+      if (!record || record.expires === undefined) return false;
+      return record.expires <= (now === undefined ? self.clock() : now);
+    },
+    /**
+     * Remove an expired entry, release its UID and emit `expired`. Entries whose target
+     * was collected in weak mode are left to `reclaim`.
+     * @param {string} uid - The UID as held in the index.
+     */
+    expire: (uid: U) => {
+      const key = self.deref(self.index.get(uid));
+      if (key === undefined) return;
+      self.deleteEntry(key);
+      self.emit({ type: 'expired', key: key, uid: uid });
+    },
+    /**
+     * Check if a UID is held and has not expired. An expired entry is removed.
+     * @param {string} [uid] - The UID as held in the index.
+     */
+    alive: (uid: U | undefined): boolean => {
+      if (uid === undefined) return false;
+      if (!self.expired(uid)) return true;
+      self.expire(uid);
+      return false;
+    },
+    /**
+     * Set if retired UIDs are kept as tombstones.
+     */
+    tombstones: !!(options && options.tombstones),
+    /**
+     * Tombstones keyed by the canonical form of the UID, holding the UID as it was
+     * held and the time it was retired.
+     */
+    retired: new Map<string, { uid: string; time: number }>(),
+    /**
+     * Canonical form of a UID, used to key `retired`.
+     * @param {string} uid - The UID in any form.
+     */
+    canonical: (uid: string): string => KDUIDDecode(uid) || uid,
+    /**
+     * Check if a UID can identify an entry: any RFC 9562 version, but not the nil or
+     * max UID, which identify nothing.
+     * @param {string} uid - The UID in any form.
+     */
+    identifies: (uid: string): boolean =>
+      self.generator.validate(uid, 'any').length > 0 &&
+      !self.generator.validate(uid, 'nil').length &&
+      !self.generator.validate(uid, 'max').length,
+    /**
+     * Keep UIDs as tombstones. UIDs that are already retired keep their time.
+     * @param {string[]} uids - The UID strings.
+     * @param {number} [time] - The time they were retired. Defaults to now.
+     */
+    retire: (uids: string[], time: number = self.clock()) => {
+      uids.forEach((uid) => {
+        const canonical = self.canonical(uid);
+        if (!self.retired.has(canonical)) {
+          self.retired.set(canonical, { uid: uid, time: time });
+        }
+      });
+    },
+    /**
+     * Record an access to an entry.
+     * @param {string} uid - The UID as held in the index.
+     */
+    touch: (uid: string) => {
+      const record = self.metas.get(uid);
+      if (record) record.accessed = self.clock();
+    },
+    /**
+     * Retrieve the key for a UID given in any form without recording an access.
+     * @param {string} uid - The UID in any form.
+     */
+    lookup: (uid: string): K | undefined => {
+      const held = self.find(uid);
+      if (!self.alive(held)) return;
+      return self.deref(self.index.get(held));
+    },
+    /**
+     * Remove an entry whose target was collected, if the UID is still associated with
+     * that target.
+     * @param {string} uid - The UID string.
+     */
+    reclaim: (uid: U) => {
+      const value = self.index.get(uid);
+      if (!weak || !(value instanceof WeakRef) || value.deref() !== undefined)
+        return;
+      self.index.delete(uid);
+      self.metas.delete(uid);
+      self.order.delete(uid);
+      self.release(uid);
+      if (options && options.onReclaim) options.onReclaim(uid);
+      self.emit({ type: 'reclaimed', uid: uid });
+    },
+    /**
+     * Listeners added with `subscribe`.
+     */
+    listeners: new Set<KDUIDManagerListener<K, U>>(),
+    /**
+     * While `true`, events are not emitted. Used to batch `setEntries` into a single
+     * `entriesReplaced` event.
+     */
+    muted: false,
+    /**
+     * Emit an event to `storage`, `sync` and every listener, or hold it until the open
+     * transaction commits.
+     * @param {KDUIDManagerEvent} event - The change event.
+     */
+    emit: (event: KDUIDManagerEvent<K, U>) => {
+      if (self.muted) return;
+      if (self.batch) {
+        self.batch.events.push(event);
+        return;
+      }
+      self.persist();
+      self.publish(event);
+      self.notify(event);
+    },
+    /**
+     * Call every listener with an event. A listener that throws is reported and does
+     * not prevent the others from being called.
+     * @param {KDUIDManagerEvent} event - The change event.
+     */
+    notify: (event: KDUIDManagerEvent<K, U>) => {
+      self.listeners.forEach((listener) => {
+        try {
+          listener(event);
+        } catch {
+          console.error(`subscribe - listener failed handling ${event.type}`);
+        }
+      });
+    },
+    /**
+     * Converts keys for `storage` and `sync`.
+     */
+    codec: ((options && options.codec) || identityCodec) as KDUIDKeyCodec<
+      K,
+      any
+    >,
+    /**
+     * Associate a target with a UID and emit `added`, or `regenerated` if the target
+     * had a different UID.
+     * @param {any} target - The entity reference.
+     * @param {string} uid - The UID string.
+     * @param {KDUIDEntryMeta} [record] - The entry's metadata.
+     */
+    assign: (target: K, uid: U, record?: KDUIDEntryMeta<M>) => {
+      const previous = self.get(target);
+      if (previous === uid) return;
+      self.setEntry(target, uid, record);
+      if (previous !== undefined && self.tombstones) self.retire([previous]);
+      if (previous === undefined) {
+        self.emit({ type: 'added', key: target, uid: uid });
+      } else {
+        self.emit({
+          type: 'regenerated',
+          key: target,
+          uid: uid,
+          previous: previous,
+        });
+      }
+    },
+    /**
+     * Connection to the other managers on the `sync` transport.
+     */
+    peer: undefined as ReturnType<typeof KDUIDSyncPeer> | undefined,
+    /**
+     * While `true`, changes are being applied from a peer and are not published.
+     */
+    remote: false,
+    /**
+     * While `true`, entries are being restored from `storage`.
+     */
+    restoring: false,
+    /**
+     * Run a change received from a peer without publishing it.
+     * @param {() => T} fn - The change.
+     */
+    remotely: <T>(fn: () => T): T => {
+      self.remote = true;
+      try {
+        return fn();
+      } finally {
+        self.remote = false;
+      }
+    },
+    /**
+     * Resolve a descriptor to a key, or `undefined` if it can't be resolved.
+     * @param {any} descriptor - The key descriptor.
+     */
+    decode: (descriptor: any): K | undefined => {
+      try {
+        return self.codec.decode(descriptor);
+      } catch {
+        return;
+      }
+    },
+    /**
+     * Publish a local change to the other managers on the `sync` transport.
+     * @param {KDUIDManagerEvent} event - The change event.
+     */
+    publish: (event: KDUIDManagerEvent<K, U>) => {
+      if (!self.peer || self.remote) return;
+      const { encode } = self.codec;
+      switch (event.type) {
+        case 'added':
+        case 'regenerated':
+          self.peer.set(encode(event.key), event.uid);
+          break;
+        case 'deleted':
+        case 'expired':
+          self.peer.delete(encode(event.key), event.uid);
+          break;
+        case 'reclaimed':
+          self.peer.delete(undefined, event.uid);
+          break;
+        case 'reset':
+          self.peer.reset();
+          break;
+        case 'entriesReplaced': {
+          const entries = event.entries.map(
+            ([key, uid]) => [encode(key), uid] as [any, string]
+          );
+          if (self.restoring) self.peer.announce(entries);
+          else self.peer.replace(entries, self.generator.getExisting());
+          break;
+        }
+      }
+    },
+    /**
+     * Start syncing over the `sync` transport.
+     */
+    connect: () => {
+      if (!(options && options.sync)) return;
+      const { encode } = self.codec;
+      self.peer = KDUIDSyncPeer(options.sync, {
+        snapshot: () => ({
+          entries: self.live().map(([key, uid]) => [encode(key), uid]),
+          existing: self.generator.getExisting(),
+        }),
+        assign: (descriptor, uid) =>
+          self.remotely(() => {
+            const key = self.decode(descriptor);
+            if (key === undefined) return false;
+            self.generator.addExisting(uid);
+            const valid = self.generator.validate(uid, 'any').length > 0;
+            self.assign(
+              self.resolve(key),
+              (valid ? self.canonical(uid) : uid) as U
+            );
+            return true;
+          }),
+        remove: (uid) =>
+          self.remotely(() => {
+            _self.deleteEntryForUID(uid as U);
+          }),
+        regenerate: (descriptor) => {
+          const key = self.decode(descriptor);
+          if (key !== undefined) _self.generateUIDFor(key);
+        },
+        claim: (uids) => {
+          self.generator.addExisting(self.generator.validate(uids, 'any'));
+        },
+        release: (uid) => self.release(uid),
+        reset: () => self.remotely(() => _self.reset()),
+        replace: (entries) =>
+          self.remotely(() => {
+            const decoded: [K, string][] = [];
+            entries.forEach(([descriptor, uid]) => {
+              const key = self.decode(descriptor);
+              if (key !== undefined) decoded.push([key, uid]);
+            });
+            _self.setEntries(decoded);
+            return self.live().map(([key, uid]) => [encode(key), uid]);
+          }),
+      });
+      self.peer.start();
+    },
+    /**
+     * `false` until the state has been read from `storage`. Changes made before then are
+     * merged into the hydrated state instead of being written.
+     */
+    hydrated: !(options && options.storage),
+    /**
+     * Set if a change happened before hydration finished.
+     */
+    dirty: false,
+    /**
+     * The pending debounced write, if any.
+     */
+    timer: undefined as ReturnType<typeof setTimeout> | undefined,
+    /**
+     * Write the current state to `storage` now. Errors are reported and do not throw.
+     */
+    save: (): Promise<void> => {
+      const report = () => console.error('storage - error saving state');
+      try {
+        const state = _self.toJSON(options.codec);
+        return Promise.resolve(options.storage.save(state)).catch(report);
+      } catch {
+        report();
+        return Promise.resolve();
+      }
+    },
+    /**
+     * Write the current state to `storage` after a change, debounced if configured.
+     */
+    persist: () => {
+      if (!(options && options.storage)) return;
+      if (!self.hydrated) {
+        self.dirty = true;
+        return;
+      }
+      if (!(options.debounce > 0)) {
+        self.save();
+        return;
+      }
+      if (self.timer !== undefined) clearTimeout(self.timer);
+      self.timer = setTimeout(() => {
+        self.timer = undefined;
+        self.save();
+      }, options.debounce);
+    },
+    /**
+     * Restore the state read from `storage`. Entries created before hydration finished
+     * are merged in after the stored ones, so they win over stored entries with the
+     * same key.
+     * @param {KDUIDStoredState} stored - The state read from storage.
+     */
+    hydrate: (
+      stored: KDUIDStoredState
+    ): KDUIDSetEntriesResult<K, U> | false => {
+      const pending = self.dirty;
+      let result: KDUIDSetEntriesResult<K, U> | false = {
+        changed: [],
+        invalid: [],
+      };
+      if (stored !== null && stored !== undefined) {
+        let state: KDUIDStoredState = stored;
+        if (pending) {
+          const current = _self.toJSON(options.codec);
+          try {
+            const parsed: KDUIDManagerState =
+              typeof stored === 'string' ? JSON.parse(stored) : stored;
+            state = {
+              ...parsed,
+              entries: [...parsed.entries, ...current.entries],
+              existing: [...parsed.existing, ...current.existing],
+              meta: { ...parsed.meta, ...current.meta },
+              tombstones: { ...parsed.tombstones, ...current.tombstones },
+            };
+          } catch {
+            // left for fromJSON to report
+          }
+        }
+        self.restoring = true;
+        result = _self.fromJSON(state, options.codec);
+        self.restoring = false;
+      }
+      self.hydrated = true;
+      self.dirty = false;
+      if (
+        pending ||
+        (result && (result.changed.length || result.invalid.length))
+      ) {
+        self.persist();
+      }
+      return result;
+    },
+    /**
+     * Read the state from `storage`, if there is one, and hydrate the manager.
+     * @returns A `Promise` of the same result as `setEntries`, or `false` if the state
+     * could not be read or restored.
+     */
+    load: (): Promise<KDUIDSetEntriesResult<K, U> | false> => {
+      if (!(options && options.storage)) {
+        return Promise.resolve({ changed: [], invalid: [] });
+      }
+      const fail = (): false => {
+        console.error('storage - error loading state');
+        self.hydrated = true;
+        return false;
+      };
+      try {
+        const stored = options.storage.load();
+        if (stored && typeof (stored as any).then === 'function') {
+          return Promise.resolve(stored).then(self.hydrate, fail);
+        }
+        return Promise.resolve(self.hydrate(stored as KDUIDStoredState));
+      } catch {
+        return Promise.resolve(fail());
+      }
+    },
+    /**
+     * The open transaction, if any. While a transaction is open, events are held, UIDs
+     * are released from the generator only on commit, and `updateGenerator` runs once on
+     * commit.
+     */
+    batch: undefined as
+      | {
+          events: KDUIDManagerEvent<K, U>[];
+          added: string[];
+          released: string[];
+          sync: boolean;
+          extra: string[];
+        }
+      | undefined,
     /**
      * Update the list of previously generated UID strings held by the generator
-     * with the current list held by the manager.
+     * with the current list held by the manager. If tombstones are enabled, UIDs
+     * dropped from the generator are retired, and every retired UID is kept.
+     * @param {string[]} [extra] - Previously generated UIDs to keep as well.
+     */
+    updateGenerator: (extra: string[] = []) => {
+      if (self.batch) {
+        self.batch.sync = true;
+        self.batch.extra.push(...extra);
+        return true;
+      }
+      const uids = new Set([
+        ...self.live(true).map(([, uid]) => uid),
+        ...extra,
+      ]);
+      if (self.tombstones) {
+        self.retire(
+          self.generator.getExisting().filter((uid) => !uids.has(uid))
+        );
+        self.retired.forEach(({ uid }) => uids.add(uid));
+      }
+      // one malformed UID would make the generator reject them all
+      const valid = self.generator.validate(Array.from(uids), 'any');
+      if (valid.length !== uids.size) {
+        console.error('updateGenerator - skipped malformed uids, see verify()');
+      }
+      return self.generator.setExisting(valid);
+    },
+    /**
+     * Generate a new UID, recording it in the open transaction. In content mode, the UID
+     * is derived from the target.
+     * @param {any} [target] - The entity reference.
+     */
+    generate: (target?: K): U => {
+      if (content) {
+        const uid = self.derive(target);
+        // an equal value derives the same UID, so only a new one is journaled
+        self.claim([uid]);
+        return uid;
+      }
+      const uid = self.generator.generate() as U;
+      if (self.batch) self.batch.added.push(uid);
+      return uid;
+    },
+    /**
+     * Check if a UID is already used outside this manager. See `isClaimed`.
+     * @param {string} uid - The UID string.
+     */
+    isClaimed: (uid: string): boolean =>
+      self.retired.has(self.canonical(uid)) ||
+      !!(options && options.isClaimed && options.isClaimed(uid)),
+    /**
+     * Add UIDs to the generator's previously generated UIDs.
+     * @param {string[]} uids - Valid UID strings.
+     */
+    claim: (uids: string[]) => {
+      const added = uids.filter((uid) => !self.generator.hasExisting(uid));
+      self.generator.addExisting(added);
+      if (self.batch) self.batch.added.push(...added);
+    },
+    /**
+     * Release a UID from the generator, or on commit if a transaction is open. Retires
+     * the UID instead if tombstones are enabled.
+     * @param {string} uid - The UID string.
+     */
+    release: (uid: string) => {
+      if (self.tombstones) self.retire([uid]);
+      else if (self.batch) self.batch.released.push(uid);
+      else self.generator.deleteExisting(uid);
+    },
+    /**
+     * Associate a target with a UID in both the map and the reverse index, replacing
+     * any existing association for the target.
+     * @param {any} target - The entity reference.
+     * @param {string} uid - The UID string.
+     * @param {KDUIDEntryMeta} [record] - The entry's metadata. Created if not given.
+     */
+    setEntry: (target: K, uid: U, record?: KDUIDEntryMeta<M>) => {
+      if (self.has(target)) self.deleteEntry(target, false);
+      if (content) {
+        const canonical = KDUIDCanonical(target);
+        self.byContent.set(canonical, target);
+        self.contents.set(target, canonical);
+      }
+      self.metas.set(uid, record || self.record());
+      self.order.set(uid, ++self.position);
+      if (self.isWeak(target)) {
+        const object = (target as unknown) as object;
+        const ref = new WeakRef(object);
+        self.weakMap.set(object, uid);
+        self.index.set(uid, ref);
+        self.registry.register(object, uid, ref);
+      } else {
+        self.map.set(target, uid);
+        self.index.set(uid, target);
+      }
+    },
+    /**
+     * Remove a target from both the map and the reverse index, and release its UID from
+     * the generator.
+     * @param {any} target - The entity reference.
+     * @param {boolean} [release] - Release the UID from the generator. Defaults to `true`.
+     */
+    deleteEntry: (target: K, release: boolean = true) => {
+      const uid = self.get(target);
+      if (self.isWeak(target)) {
+        self.registry.unregister(self.index.get(uid));
+        self.weakMap.delete((target as unknown) as object);
+      } else {
+        self.map.delete(target);
+      }
+      self.index.delete(uid);
+      self.metas.delete(uid);
+      self.order.delete(uid);
+      self.frozen.delete(uid);
+      if (content) {
+        self.byContent.delete(self.contents.get(target));
+        self.contents.delete(target);
+      }
+      if (release) self.release(uid);
+    },
+    /**
+     * Find the problems reported by `verify`.
+     * @returns The report, and every `[key, uid]` entry held by the map, in insertion
+     * order. The entries in the report are the same arrays.
+     */
+    check: (): { report: KDUIDVerifyReport<K, U>; held: [K, U][] } => {
+      const held: [K, U][] = [];
+      self.map.forEach((uid, key) => held.push([key, uid]));
+      if (weak) {
+        // objects held weakly can only be reached through the reverse index
+        const seen = new Set<object>();
+        self.index.forEach((value) => {
+          const target = value instanceof WeakRef ? value.deref() : undefined;
+          if (target === undefined || seen.has(target)) return;
+          seen.add(target);
+          held.push([target, self.weakMap.get(target)]);
+        });
+      }
+      const report: KDUIDVerifyReport<K, U> = {
+        ok: true,
+        duplicates: [],
+        malformed: [],
+        invalidKeys: [],
+        missing: [],
+        malformedExisting: [],
+        stale: [],
+        orphaned: [],
+      };
+      const valid = (uid: string) =>
+        self.generator.validate(uid, 'any').length > 0;
+      const holders = new Map<string, [K, U][]>();
+      held.forEach((entry) => {
+        const [key, uid] = entry;
+        if (key === undefined || (content && !self.unchanged(key))) {
+          report.invalidKeys.push(entry);
+        }
+        if (!valid(uid)) {
+          report.malformed.push(entry);
+          return;
+        }
+        const canonical = self.canonical(uid);
+        if (!holders.has(canonical)) holders.set(canonical, []);
+        holders.get(canonical).push(entry);
+        if (!self.generator.hasExisting(uid)) report.missing.push(uid);
+      });
+      holders.forEach((entries, uid) => {
+        if (entries.length > 1) {
+          report.duplicates.push({ uid: uid, entries: entries });
+        }
+      });
+
+      const orphaned = new Set<string>();
+      self.index.forEach((value, uid) => {
+        // collected targets are left to `reclaim`
+        if (weak && value instanceof WeakRef && value.deref() === undefined)
+          return;
+        if (self.get(self.deref(value)) !== uid) orphaned.add(uid);
+      });
+      self.metas.forEach((_, uid) => {
+        if (!self.index.has(uid)) orphaned.add(uid);
+      });
+      report.orphaned = Array.from(orphaned);
+
+      const kept = new Set<string>(held.map(([, uid]) => uid));
+      self.retired.forEach(({ uid }) => kept.add(uid));
+      self.generator.getExisting().forEach((uid) => {
+        if (!valid(uid)) report.malformedExisting.push(uid);
+        else if (!kept.has(uid)) report.stale.push(uid);
+      });
+
+      report.ok = !(
+        report.duplicates.length ||
+        report.malformed.length ||
+        report.invalidKeys.length ||
+        report.missing.length ||
+        report.malformedExisting.length ||
+        report.orphaned.length
+      );
+      return { report: report, held: held };
+    },
+    /**
+     * In content mode, check if a key still serializes to the content it was held with.
+     * @param {any} key - The entity reference.
+     */
+    unchanged: (key: K): boolean => {
+      try {
+        return KDUIDCanonical(key) === self.contents.get(key);
+      } catch {
+        return false;
+      }
+    },
+    /**
+     * Clear the map, the reverse index and the metadata.
+     */
+    clear: () => {
+      if (weak) {
+        self.index.forEach((value) => {
+          if (value instanceof WeakRef) self.registry.unregister(value);
+        });
+        self.weakMap = new WeakMap();
+      }
+      self.map.clear();
+      self.index.clear();
+      self.metas = new Map();
+      self.order.clear();
+      self.frozen.clear();
+      self.byContent.clear();
+      self.contents.clear();
+    },
+    /**
+     * Replace every entry. An entry whose key still holds the same UID keeps its place
+     * and position, so open `page` cursors stay valid, and the others are added after
+     * them.
+     * @param {[K, U, KDUIDEntryMeta][]} entries - The entries and their metadata.
      */
-    updateGenerator: () => {
-      const uids = Array.from(self.map.values());
-      return self.generator.setExisting(uids);
+    rebuild: (entries: [K, U, KDUIDEntryMeta<M>?][]) => {
+      const order = new Map<string, number>(self.order);
+      const holders = new Map<string, K>();
+      self.index.forEach((value, uid) => holders.set(uid, self.deref(value)));
+      self.clear();
+      const kept = new Set(
+        entries.filter(
+          ([key, uid]) => order.has(uid) && holders.get(uid) === key
+        )
+      );
+      Array.from(kept)
+        .sort((a, b) => order.get(a[1]) - order.get(b[1]))
+        .forEach(([key, uid, record]) => {
+          self.setEntry(key, uid, record);
+          self.order.set(uid, order.get(uid));
+        });
+      entries.forEach((entry) => {
+        if (!kept.has(entry)) self.setEntry(...entry);
+      });
     },
   };
 
@@ -39,22 +1401,46 @@ export const KDUIDManager = () => {
      * is set as the key, and the UID string is set as the value. If the target entity
      * already exists in the map, the existing association is deleted and a new UID is
      * mapped to that entity.
-     * @param {any} target - `any` entity to be mapped to a unique identifier.
+     * @param {K} target - `any` entity to be mapped to a unique identifier.
+     * @param {KDUIDEntryOptions} [options] - Metadata to keep with the entry and its TTL.
      * @returns The generated UID `string`.
      */
-    generateUIDFor: (target: any) => {
-      const uid = self.generator.generate();
-      if (self.map.has(target)) self.map.delete(target);
-      self.map.set(target, uid);
+    generateUIDFor: (target: K, options?: KDUIDEntryOptions<M>): U => {
+      const key = self.resolve(target);
+      // drops an expired entry first, so the new one is reported as added
+      _self.hasUIDFor(key);
+      const uid = self.generate(key);
+      self.assign(key, uid, self.record(options));
       return uid;
     },
 
+    /**
+     * Generate a UID for each target in a single transaction. See `generateUIDFor`.
+     * @param {K[]} targets - The entities to be mapped to unique identifiers.
+     * @param {KDUIDEntryOptions} [options] - Metadata and TTL used for every entry.
+     * @returns The generated UIDs in the same order, or `false` if `targets` isn't an
+     * array.
+     */
+    generateUIDsFor: (
+      targets: K[],
+      options?: KDUIDEntryOptions<M>
+    ): U[] | false => {
+      if (!Array.isArray(targets)) {
+        console.error('generateUIDsFor - targets must be an array');
+        return false;
+      }
+      return _self.transaction(() =>
+        targets.map((target) => _self.generateUIDFor(target, options))
+      );
+    },
+
     /**
      * Check if there is an existing UID for the target object.
      * @param {any} target - The entity reference.
      * @returns {boolean}
      */
-    hasUIDFor: (target: any): boolean => self.map.has(target),
+    hasUIDFor: (target: K): boolean =>
+      self.alive(self.get(self.resolve(target))),
 
     /**
      * Retrieve the UID string for the associated object.
@@ -62,118 +1448,709 @@ export const KDUIDManager = () => {
      * @returns {string | undefined} Returns the UID `string` or `undefined` if
      * one doesn't exist.
      */
-    getUIDFor: (target: any): string => self.map.get(target),
+    getUIDFor: (target: K): U | undefined => {
+      const uid = self.get(self.resolve(target));
+      if (!self.alive(uid)) return;
+      self.touch(uid);
+      return uid;
+    },
 
     /**
-     * Check if there is an existing key for the associated UID string.
+     * Check if there is an existing key for the associated UID string. The UID may be
+     * given in any form, eg. base64url or uppercase.
      * @param {string} uid - The UID string.
      * @returns {boolean}
      */
-    hasKeyFor: (uid: string): boolean => {
-      const uids = Array.from(self.map.values());
-      for (let i in uids) {
-        const value = uids[i];
-        if (value === uid) return true;
-      }
-      return false;
+    hasKeyFor: (uid: U): boolean => self.lookup(uid) !== undefined,
+
+    /**
+     * Retrieve the key for the associated UID string. The UID may be given in any form,
+     * eg. base64url or uppercase.
+     * @param {string} uid - The UID string.
+     * @returns {K | undefined} Returns the associated object or `undefined` if one doesn't exist.
+     */
+    getKeyFor: (uid: U): K | undefined => {
+      const key = self.lookup(uid);
+      if (key !== undefined) self.touch(self.find(uid));
+      return key;
     },
 
     /**
-     * Retrieve the key for the associated UID string.
+     * Retrieve the metadata recorded for an entry. The UID may be given in any form.
+     * Does not count as an access.
      * @param {string} uid - The UID string.
-     * @returns {any} Returns the associated object or `undefined` if one doesn't exist.
+     * @returns {KDUIDEntryMeta | undefined} A copy of the entry's metadata, or
+     * `undefined` if the UID isn't managed.
+     */
+    getMetaFor: (uid: U): KDUIDEntryMeta<M> | undefined => {
+      if (self.lookup(uid) === undefined) return;
+      return { ...self.metas.get(self.find(uid)) };
+    },
+
+    /**
+     * Retrieve a new array containing every entry the predicate returns `true` for.
+     * Does not count as an access.
+     * @param {(key: K, uid: U, meta: KDUIDEntryMeta) => boolean} predicate - Called
+     * with each entry and a copy of its metadata.
+     * @returns An `array` holding the matching entries.
+     */
+    entriesWhere: (
+      predicate: (key: K, uid: U, meta: KDUIDEntryMeta<M>) => boolean
+    ): [K, U][] =>
+      self
+        .live()
+        .filter(([key, uid]) =>
+          predicate(key, uid, { ...self.metas.get(uid) })
+        ),
+
+    /**
+     * Remove every expired entry in a single transaction, emitting `expired` for each.
+     * Expired entries are otherwise only removed when they are looked up.
+     * @returns An `array` holding the removed entries.
      */
-    getKeyFor: (uid: string): any => {
-      const entries = Array.from(self.map.entries());
-      for (let i in entries) {
-        const [key, value] = entries[i];
-        if (value === uid) return key;
+    sweep: (): [K, U][] => {
+      const now = self.clock();
+      const expired = self
+        .live(true)
+        .filter(([, uid]) => self.expired(uid, now));
+      if (expired.length) {
+        _self.transaction(() => expired.forEach(([, uid]) => self.expire(uid)));
       }
-      return;
+      return expired;
     },
 
     /**
      * Retrieve a new array containing all keys held in the map.
      * @returns An `array` holding all managed objects;
      */
-    keys: (): any[] => Array.from(self.map.keys()),
+    keys: (): K[] => self.live().map(([key]) => key),
 
     /**
      * Retrieve a new array containing all values (uids) held in the map.
      * @returns An `array` holding all of the `string` UIDs.
      */
-    uids: (): string[] => Array.from(self.map.values()),
+    uids: (): U[] => self.live().map(([, uid]) => uid),
 
     /**
      * Retrieve a new array containing individual arrays `[entity, uid]` for each entry.
      * @returns An `array` holding all entries.
      */
-    entries: (): [any, string][] => Array.from(self.map.entries()),
+    entries: (): [K, U][] => self.live(),
+
+    /**
+     * The number of entries held in the map. Expired entries, and in weak mode collected
+     * targets, are not counted, so every entry is checked on each read. Read it once
+     * rather than in a loop over a large manager.
+     */
+    get size(): number {
+      const walk = self.walk();
+      let size = 0;
+      while (!walk.next().done) size++;
+      return size;
+    },
+
+    /**
+     * Iterate over every `[entity, uid]` entry in insertion order without copying the
+     * map. Does not count as an access.
+     */
+    [Symbol.iterator]: (): IterableIterator<[K, U]> => self.walk(),
+
+    /**
+     * Call the callback with each entry in insertion order. Does not count as an access.
+     * @param {(key: K, uid: U) => void} callback - Called with each entry.
+     */
+    forEach: (callback: (key: K, uid: U) => void) => {
+      for (const [key, uid] of self.walk()) callback(key, uid);
+    },
+
+    /**
+     * Retrieve the first entry the predicate returns `true` for. Does not count as an
+     * access.
+     * @param {(key: K, uid: U) => boolean} predicate - Called with each entry.
+     * @returns The `[entity, uid]` entry, or `undefined` if none match.
+     */
+    find: (predicate: (key: K, uid: U) => boolean): [K, U] | undefined => {
+      for (const entry of self.walk()) {
+        if (predicate(entry[0], entry[1])) return entry;
+      }
+      return;
+    },
+
+    /**
+     * Retrieve a new array containing every entry the predicate returns `true` for.
+     * Does not count as an access. See `entriesWhere` to filter by metadata.
+     * @param {(key: K, uid: U) => boolean} predicate - Called with each entry.
+     * @returns An `array` holding the matching entries.
+     */
+    filter: (predicate: (key: K, uid: U) => boolean): [K, U][] => {
+      const entries: [K, U][] = [];
+      for (const entry of self.walk()) {
+        if (predicate(entry[0], entry[1])) entries.push(entry);
+      }
+      return entries;
+    },
+
+    /**
+     * Retrieve the entries a page at a time, in insertion order. Pass the returned
+     * `cursor` to get the next page. Entries that are held for the whole walk are
+     * returned exactly once; entries added or set again after it started, eg. by
+     * `generateUIDFor` or `setEntries`, come after the cursor and are returned again.
+     * @param {KDUIDPageOptions} [options] - The cursor and the page size.
+     * @returns The page, or `false` if the cursor or limit are invalid.
+     */
+    page: (options?: KDUIDPageOptions): KDUIDPage<K, U> | false => {
+      const opts = options || {};
+      const limit = opts.limit === undefined ? 100 : opts.limit;
+      if (!Number.isInteger(limit) || limit < 1) {
+        console.error('page - limit must be a positive integer');
+        return false;
+      }
+      let after = 0;
+      if (opts.cursor !== undefined) {
+        after = /^[0-9a-z]+$/.test(opts.cursor) ? parseInt(opts.cursor, 36) : 0;
+        if (!after) {
+          console.error('page - invalid cursor');
+          return false;
+        }
+      }
+      const entries: [K, U][] = [];
+      const walk = self.walk(false, after);
+      for (const entry of walk) {
+        if (entries.length === limit) {
+          const last = entries[entries.length - 1][1];
+          return {
+            entries: entries,
+            cursor: self.order.get(last).toString(36),
+          };
+        }
+        entries.push(entry);
+      }
+      return { entries: entries };
+    },
+
+    /**
+     * Take an immutable snapshot of the entries. Entries that haven't changed are
+     * shared with earlier snapshots, so taking one doesn't copy each entry, and
+     * `diff` can compare two snapshots mostly by identity. Snapshots hold their keys,
+     * including in weak mode.
+     * @returns {KDUIDSnapshot}
+     *
+     * @example
+     * const before = manager.snapshot();
+     * manager.generateUIDFor(obj);
+     * before.diff(manager.snapshot()).added; // [[obj, uid]]
+     */
+    snapshot: (): KDUIDSnapshot<K, U> => {
+      const entries: (readonly [K, U])[] = [];
+      for (const [key, uid] of self.walk()) {
+        let entry = self.frozen.get(uid);
+        if (!entry || entry[0] !== key) {
+          entry = Object.freeze([key, uid] as [K, U]);
+          if (!weak) self.frozen.set(uid, entry);
+        }
+        entries.push(entry);
+      }
+      return createSnapshot(Object.freeze(entries));
+    },
 
     /**
      * Clear all existing entries and set to the given list. If there are any duplicate
      * keys, this will replace the key entry with the latest UID. If a duplicate UID is
-     * found, a new one will be generated for the given key.
-     * @param {[any, string][]} entries - An `Array[any, string]` holding
-     * the intended entries as key-value pairs `[any, string]`.
-     * @returns An object `{ changed: [any, string][]; invalid: [any, any][] }`. `changed`
+     * found, a new one will be generated for the given key. Same as `importEntries` in
+     * `replace` mode.
+     * @param {[K, string][]} entries - An `Array[K, string]` holding
+     * the intended entries as key-value pairs `[K, string]`.
+     * @returns An object `{ changed: [K, U][]; invalid: [K, string][] }`. `changed`
      * is an array holding any entries where the UID had to be changed, and `invalid` is
      * an array holding any entries that were not able to be added to the manager. Returns
      * `false` if unsuccessful the entire process was unsuccessful.
      */
     setEntries: (
-      entries: [any, string][]
-    ): { changed: [any, string][]; invalid: [any, any][] } | false => {
-      if (Array.isArray(entries)) {
-        try {
-          const changed: [any, string][] = [];
-          const invalid: [any, any][] = [];
+      entries: [K, string][]
+    ): KDUIDSetEntriesResult<K, U> | false => {
+      if (!Array.isArray(entries)) {
+        console.error('setEntries - entries must be an array');
+        return false;
+      }
+      const result = _self.importEntries(entries);
+      return result && { changed: result.changed, invalid: result.invalid };
+    },
+
+    /**
+     * Import a list of entries. Entries whose UID is not a valid RFC 9562 identifier, or
+     * is the nil or max UID, are reported in `invalid`. Conflicts are settled by the `onDuplicateKey` and
+     * `onDuplicateUID` policies and reported in `conflicts`. UIDs already used outside
+     * this manager (see `isClaimed`) are always regenerated. Entries whose key keeps its
+     * UID keep their place, and the others are added after them.
+     * @param {[K, string][]} entries - The incoming `[key, uid]` entries.
+     * @param {KDUIDImportOptions} [options] - The mode, conflict policies and dry run.
+     * @returns An object `{ changed, invalid, conflicts }`, or `false` if unsuccessful.
+     */
+    importEntries: (
+      entries: [K, string][],
+      options?: KDUIDImportOptions
+    ): KDUIDImportResult<K, U> | false => {
+      const opts = options || {};
+      const mode = opts.mode || 'replace';
+      if (!Array.isArray(entries)) {
+        console.error('importEntries - entries must be an array');
+        return false;
+      }
+      if (['replace', 'merge', 'upsert'].indexOf(mode) < 0) {
+        console.error(`importEntries - unknown mode ${mode}`);
+        return false;
+      }
+      const keyPolicy =
+        opts.onDuplicateKey || (mode === 'merge' ? 'keep' : 'take');
+      const uidPolicy = opts.onDuplicateUID || 'regenerate';
 
-          self.map.clear();
+      const changed: [K, U][] = [];
+      const invalid: [K, string][] = [];
+      const conflicts: KDUIDImportConflict<K, U>[] = [];
 
-          entries.forEach((entry) => {
-            const [key, uid] = entry;
-            const isValidUID = self.generator.validate(uid);
+      // the planned entries, and the key holding each canonical uid
+      const planned = new Map<K, U>();
+      const holders = new Map<string, K>();
+      const seen = new Set<K>();
+      const canonical = (uid: string) => KDUIDDecode(uid) || uid;
+      const plan = (key: K, uid: U, hold: boolean = true) => {
+        const previous = planned.has(key) && canonical(planned.get(key));
+        if (previous && holders.get(previous) === key) holders.delete(previous);
+        planned.delete(key);
+        planned.set(key, uid);
+        if (hold) holders.set(canonical(uid), key);
+      };
+      // in content mode, equal values are the same key
+      const fresh = new Map<string, K>();
+      const unify = (target: K): K => {
+        const serialized = KDUIDCanonical(target);
+        const key = self.byContent.get(serialized);
+        if (key !== undefined) return key;
+        if (!fresh.has(serialized)) fresh.set(serialized, target);
+        return fresh.get(serialized);
+      };
+      const regenerate = (key: K, uid: string) => {
+        const fresh = opts.dryRun ? (uid as U) : self.generate(key);
+        changed.push([key, fresh]);
+        // a dry run doesn't generate, so the incoming uid stays with its holder
+        plan(key, fresh, !opts.dryRun);
+      };
 
-            const handleValid = () => {
-              const uidExists = _self.uids().includes(uid);
-              if (uidExists) changed.push([key, _self.generateUIDFor(key)]);
-              else self.map.set(key, uid);
-            };
+      try {
+        if (mode !== 'replace') {
+          if (!opts.dryRun) _self.sweep();
+          self.live().forEach(([key, uid]) => plan(key, uid));
+        }
+
+        entries.forEach((entry) => {
+          const uid = entry[1];
+          let key = entry[0];
+          if (content) {
+            try {
+              key = unify(key);
+            } catch {
+              invalid.push(entry);
+              return;
+            }
+          }
+          if (!self.identifies(uid)) {
+            invalid.push(entry);
+            return;
+          }
+
+          const duplicateKey =
+            planned.has(key) && (seen.has(key) || mode === 'merge');
+          seen.add(key);
+          if (duplicateKey) {
+            conflicts.push({
+              type: 'key',
+              entry: entry,
+              existing: [key, planned.get(key)],
+              resolution: keyPolicy,
+            });
+            if (keyPolicy === 'keep') return;
+            if (keyPolicy === 'reject') {
+              invalid.push(entry);
+              return;
+            }
+            if (keyPolicy === 'regenerate') {
+              regenerate(key, uid);
+              return;
+            }
+          }
 
-            if (!isValidUID) invalid.push(entry);
-            else handleValid();
-          });
+          if (
+            self.isClaimed(uid) ||
+            (content && canonical(uid) !== canonical(self.derive(key)))
+          ) {
+            regenerate(key, uid);
+            return;
+          }
 
-          self.updateGenerator();
+          const holder = holders.get(canonical(uid));
+          if (holders.has(canonical(uid)) && holder !== key) {
+            conflicts.push({
+              type: 'uid',
+              entry: entry,
+              existing: [holder, planned.get(holder)],
+              resolution: uidPolicy,
+            });
+            if (uidPolicy === 'keep') return;
+            if (uidPolicy === 'reject') {
+              invalid.push(entry);
+              return;
+            }
+            if (uidPolicy === 'regenerate') {
+              regenerate(key, uid);
+              return;
+            }
+            planned.delete(holder);
+          }
+          plan(key, canonical(uid) as U);
+        });
 
-          return { changed: changed, invalid: invalid };
-        } catch {
-          console.error('setEntries - error setting entries');
-          return false;
+        if (opts.dryRun) {
+          return { changed: changed, invalid: invalid, conflicts: conflicts };
         }
-      } else {
-        console.error('setEntries - entries must be an array');
+
+        self.muted = true;
+        const metas = self.metas;
+        const held = Array.from(self.index.keys());
+        self.rebuild(
+          Array.from(planned, ([key, uid]): [K, U, KDUIDEntryMeta<M>] => [
+            key,
+            uid,
+            metas.get(uid),
+          ])
+        );
+        if (self.tombstones) {
+          self.retire(held.filter((uid) => !self.index.has(uid)));
+        }
+        if (mode === 'replace') self.updateGenerator();
+        else self.claim(Array.from(planned.values()));
+        self.muted = false;
+
+        self.emit({
+          type: 'entriesReplaced',
+          entries: _self.entries(),
+          changed: changed,
+          invalid: invalid,
+        });
+
+        return { changed: changed, invalid: invalid, conflicts: conflicts };
+      } catch {
+        self.muted = false;
+        console.error('importEntries - error importing entries');
         return false;
       }
     },
 
     /**
-     * Delete a UID association for a given UID string.
-     * @param {string} uid - The UID string.
-     * @returns `true` if successful.
+     * Check that the entries, the reverse index and the generator agree. Finds UIDs held
+     * by more than one key, malformed UIDs, keys that can't be held, held UIDs the
+     * generator doesn't know and generator UIDs nothing holds. Changes nothing. In weak
+     * mode, objects are only reached through the reverse index.
+     * @returns {KDUIDVerifyReport}
+     *
+     * @example
+     * const report = manager.verify();
+     * if (!report.ok) manager.repair();
      */
-    deleteEntryForUID: (uid: string): boolean => {
-      const entries = Array.from(self.map.entries());
-      if (entries.length) {
-        for (let i in entries) {
-          const [key, value] = entries[i];
-          if (value === uid) {
-            self.map.delete(key);
-            self.updateGenerator();
-            return true;
+    verify: (): KDUIDVerifyReport<K, U> => self.check().report,
+
+    /**
+     * Fix the problems `verify` finds. Missing UIDs are claimed first, so no regenerated
+     * UID repeats one. Entries are then fixed in insertion order, and the results don't
+     * depend on anything but the state and the generator. Emits `entriesReplaced` if any
+     * entry changed.
+     * @param {KDUIDRepairPolicy} [policy] - How entries and stale UIDs are fixed.
+     * @returns {KDUIDRepairReport} What changed, or `false` if the policy is invalid.
+     */
+    repair: (policy?: KDUIDRepairPolicy): KDUIDRepairReport<K, U> | false => {
+      const opts = policy || {};
+      const fix = opts.entries || 'regenerate';
+      const stale = opts.stale || 'keep';
+      if (
+        ['regenerate', 'drop'].indexOf(fix) < 0 ||
+        ['keep', 'release'].indexOf(stale) < 0
+      ) {
+        console.error('repair - unknown policy');
+        return false;
+      }
+      const { report, held } = self.check();
+      const result: KDUIDRepairReport<K, U> = {
+        regenerated: [],
+        dropped: [],
+        claimed: report.missing,
+        released: [],
+        removed: report.orphaned,
+      };
+      self.claim(report.missing);
+
+      const dropped = new Set<[K, U]>(
+        report.invalidKeys.filter(([key]) => key === undefined)
+      );
+      const broken = new Set<[K, U]>(report.malformed as [K, U][]);
+      report.invalidKeys.forEach((entry) => {
+        if (!dropped.has(entry)) broken.add(entry);
+      });
+      report.duplicates.forEach(({ entries }) => {
+        const keeper =
+          entries.find(
+            ([key, uid]) => self.deref(self.index.get(uid)) === key
+          ) || entries[0];
+        entries.forEach((entry) => {
+          if (entry !== keeper) broken.add(entry);
+        });
+      });
+
+      if (dropped.size || broken.size || report.orphaned.length) {
+        // UIDs kept by their entries, so none is given to another
+        const taken = new Set<string>();
+        held.forEach((entry) => {
+          if (!dropped.has(entry) && !broken.has(entry)) {
+            taken.add(self.canonical(entry[1]));
           }
+        });
+        const planned: [K, U, KDUIDEntryMeta<M>][] = [];
+        held.forEach((entry) => {
+          const [key, uid] = entry;
+          const record = self.metas.get(uid) && { ...self.metas.get(uid) };
+          if (dropped.has(entry) || (broken.has(entry) && fix === 'drop')) {
+            result.dropped.push(entry);
+            return;
+          }
+          if (!broken.has(entry)) {
+            planned.push([key, uid, record]);
+            return;
+          }
+          let fresh: U | undefined;
+          try {
+            // derive from what a changed content key holds now
+            self.contents.delete(key);
+            fresh = self.generate(key);
+          } catch {
+            // a content key that no longer serializes
+          }
+          // a changed content key can derive the UID of an equal one
+          if (fresh === undefined || taken.has(self.canonical(fresh))) {
+            result.dropped.push(entry);
+            return;
+          }
+          taken.add(self.canonical(fresh));
+          planned.push([key, fresh, record]);
+          result.regenerated.push({ key: key, uid: fresh, previous: uid });
+        });
+        self.muted = true;
+        self.rebuild(planned);
+        [
+          ...result.dropped.map(([, uid]) => uid),
+          ...result.regenerated.map(({ previous }) => previous),
+        ].forEach((uid) => {
+          if (
+            self.generator.validate(uid, 'any').length &&
+            !taken.has(self.canonical(uid))
+          ) {
+            self.release(uid);
+          }
+        });
+        self.muted = false;
+      }
+
+      const released = [
+        ...report.malformedExisting,
+        ...(stale === 'release' ? report.stale : []),
+      ];
+      if (released.length) self.generator.deleteExisting(released);
+      result.released = released;
+
+      if (result.regenerated.length || result.dropped.length) {
+        self.emit({
+          type: 'entriesReplaced',
+          entries: _self.entries(),
+          changed: result.regenerated.map(({ key, uid }) => [key, uid]),
+          invalid: result.dropped,
+        });
+      } else if (
+        result.claimed.length ||
+        released.length ||
+        result.removed.length
+      ) {
+        self.persist();
+      }
+      return result;
+    },
+
+    /**
+     * Create a versioned, JSON-friendly snapshot of the manager, including the
+     * generator's previously generated UIDs so a restored manager never reissues
+     * them. Keys are converted with the given codec. This is also called by
+     * `JSON.stringify(manager)`, which uses the default codec.
+     * @param {KDUIDKeyCodec} [codec] - Converts keys to JSON-friendly descriptors.
+     * @returns {KDUIDManagerState}
+     */
+    toJSON: <D = any>(codec?: KDUIDKeyCodec<K, D>): KDUIDManagerState<D> => {
+      // JSON.stringify passes the property name as the first argument
+      const { encode } = (typeof codec === 'object'
+        ? codec
+        : identityCodec) as KDUIDKeyCodec<K, D>;
+      const entries = _self.entries();
+      const meta: { [uid: string]: KDUIDEntryMeta } = {};
+      entries.forEach(([, uid]) => {
+        meta[uid] = { ...self.metas.get(uid) };
+      });
+      const state: KDUIDManagerState<D> = {
+        version: KDUIDManagerStateVersion,
+        entries: entries.map(([key, uid]) => [encode(key), uid]),
+        existing: [...self.generator.getExisting()],
+        meta: meta,
+      };
+      const seed = self.generator.getSeed();
+      if (seed) state.seed = seed;
+      if (self.tombstones) {
+        state.tombstones = {};
+        self.retired.forEach(({ uid, time }) => {
+          state.tombstones[uid] = time;
+        });
+      }
+      return state;
+    },
+
+    /**
+     * Clear all existing entries and restore them from a snapshot created with
+     * `toJSON()`. Descriptors are resolved with the given codec, and entries are set
+     * with the same rules as `setEntries`. The generator's previously generated UIDs
+     * are restored before any UID is regenerated, so none are reissued. A seeded
+     * generator resumes from the recorded seed and counter.
+     * @param {KDUIDManagerState | string} state - The snapshot or its JSON string.
+     * @param {KDUIDKeyCodec} [codec] - Resolves descriptors back to keys.
+     * @returns The same result as `setEntries`. Entries whose descriptors can't be
+     * resolved are reported in `invalid`. Returns `false` if the snapshot is
+     * malformed or of an unsupported version.
+     */
+    fromJSON: <D = any>(
+      state: KDUIDManagerState<D> | string,
+      codec?: KDUIDKeyCodec<K, D>
+    ): KDUIDSetEntriesResult<K | D, U> | false => {
+      const { decode } = (codec || identityCodec) as KDUIDKeyCodec<K, D>;
+      let parsed: KDUIDManagerState<D>;
+      try {
+        parsed = typeof state === 'string' ? JSON.parse(state) : state;
+      } catch {
+        console.error('fromJSON - state is not valid JSON');
+        return false;
+      }
+      if (!parsed || parsed.version !== KDUIDManagerStateVersion) {
+        console.error('fromJSON - unsupported state version');
+        return false;
+      }
+      if (!Array.isArray(parsed.entries) || !Array.isArray(parsed.existing)) {
+        console.error('fromJSON - state must hold entries and existing arrays');
+        return false;
+      }
+
+      const existing = self.generator.validate(parsed.existing, 'any');
+      self.claim(existing);
+
+      // a seeded generator resumes the recorded sequence
+      const seed = parsed.seed;
+      if (
+        seed &&
+        self.generator.getSeed() &&
+        (typeof seed.seed === 'number' || typeof seed.seed === 'string')
+      ) {
+        self.generator.setSeed(seed.seed, seed.counter);
+      }
+
+      // tombstones are kept, and restored ones are never reused
+      if (self.tombstones && parsed.tombstones) {
+        const tombstones = parsed.tombstones;
+        const retired = self.generator.validate(Object.keys(tombstones), 'any');
+        retired.forEach((uid) => {
+          const time = tombstones[uid];
+          self.retire([uid], typeof time === 'number' ? time : self.clock());
+        });
+        self.claim(retired);
+      }
+
+      const invalid: [D, string][] = [];
+      const decoded: [K, string][] = [];
+      parsed.entries.forEach((entry) => {
+        const [descriptor, uid] = entry;
+        let key: K | undefined;
+        try {
+          key = decode(descriptor);
+        } catch {
+          key = undefined;
         }
+        if (key === undefined) invalid.push(entry);
+        else decoded.push([key, uid]);
+      });
+
+      // restored metadata is picked up by setEntries for entries keeping their uid
+      if (parsed.meta && typeof parsed.meta === 'object') {
+        decoded.forEach(([, uid]) => {
+          const record = parsed.meta[uid];
+          if (
+            record &&
+            typeof record.created === 'number' &&
+            typeof record.accessed === 'number'
+          ) {
+            self.metas.set(uid, { ...record });
+          }
+        });
+      }
+
+      const result = _self.setEntries(decoded);
+      if (!result) return false;
+
+      self.updateGenerator(existing);
+
+      return {
+        changed: result.changed,
+        invalid: [...invalid, ...result.invalid],
+      };
+    },
+
+    /**
+     * Check if a UID was retired as a tombstone. The UID may be given in any form.
+     * @param {string} uid - The UID string.
+     * @returns {boolean}
+     */
+    isRetired: (uid: string): boolean => self.retired.has(self.canonical(uid)),
+
+    /**
+     * Remove tombstones, releasing their UIDs from the generator.
+     * @param {number} [before] - Only purge tombstones retired before this time, as read
+     * from the manager's `clock`. Purges every tombstone if not given.
+     * @returns An `array` holding the purged UIDs.
+     */
+    purgeTombstones: (before?: number): string[] => {
+      const purged: string[] = [];
+      self.retired.forEach(({ uid, time }, canonical) => {
+        if (before !== undefined && !(time < before)) return;
+        self.retired.delete(canonical);
+        purged.push(uid);
+      });
+      const released = purged.filter((uid) => !self.index.has(uid));
+      if (released.length) self.generator.deleteExisting(released);
+      if (purged.length) self.persist();
+      return purged;
+    },
+
+    /**
+     * Delete a UID association for a given UID string. The UID may be given in any form,
+     * eg. base64url or uppercase.
+     * @param {U} uid - The UID string.
+     * @returns `true` if successful.
+     */
+    deleteEntryForUID: (uid: U): boolean => {
+      if (_self.hasKeyFor(uid)) {
+        const held = self.find(uid);
+        const key = self.lookup(held);
+        self.deleteEntry(key);
+        self.emit({ type: 'deleted', key: key, uid: held });
+        return true;
       }
       return false;
     },
@@ -183,24 +2160,154 @@ export const KDUIDManager = () => {
      * @param {any} target - The entity reference.
      * @returns `true` if successful.
      */
-    deleteEntryForKey: (target: any): boolean => {
-      if (self.map.has(target)) {
-        self.map.delete(target);
-        self.updateGenerator();
+    deleteEntryForKey: (key: K): boolean => {
+      const target = self.resolve(key);
+      if (_self.hasUIDFor(target)) {
+        const uid = self.get(target);
+        self.deleteEntry(target);
+        self.emit({ type: 'deleted', key: target, uid: uid });
         return true;
       }
       return false;
     },
 
+    /**
+     * Delete the entries for each target in a single transaction. See
+     * `deleteEntryForKey`.
+     * @param {K[]} targets - The entity references.
+     * @returns Whether each entry was deleted, in the same order, or `false` if
+     * `targets` isn't an array.
+     */
+    deleteEntriesForKeys: (targets: K[]): boolean[] | false => {
+      if (!Array.isArray(targets)) {
+        console.error('deleteEntriesForKeys - targets must be an array');
+        return false;
+      }
+      return _self.transaction(() =>
+        targets.map((target) => _self.deleteEntryForKey(target))
+      );
+    },
+
+    /**
+     * Delete the entries for each UID in a single transaction. See
+     * `deleteEntryForUID`.
+     * @param {U[]} uids - The UID strings, in any form.
+     * @returns Whether each entry was deleted, in the same order, or `false` if `uids`
+     * isn't an array.
+     */
+    deleteEntriesForUIDs: (uids: U[]): boolean[] | false => {
+      if (!Array.isArray(uids)) {
+        console.error('deleteEntriesForUIDs - uids must be an array');
+        return false;
+      }
+      return _self.transaction(() =>
+        uids.map((uid) => _self.deleteEntryForUID(uid))
+      );
+    },
+
+    /**
+     * Apply every change made by `fn` at once. Events are held until `fn` returns and
+     * then emitted as a single `batch` event, `storage` is written once, and the
+     * generator is synced once. If `fn` throws, every entry and generated UID is rolled
+     * back, nothing is emitted, and the error is rethrown. A transaction opened inside
+     * another joins it.
+     * @param {() => T} fn - Makes changes to the manager.
+     * @returns The value returned by `fn`.
+     */
+    transaction: <T>(fn: () => T): T => {
+      if (self.batch) return fn();
+      const snapshot = self.live(true);
+      const metas = new Map(self.metas);
+      const order = new Map(self.order);
+      const retired = new Map(self.retired);
+      self.batch = {
+        events: [],
+        added: [],
+        released: [],
+        sync: false,
+        extra: [],
+      };
+      let result: T;
+      try {
+        result = fn();
+      } catch (error) {
+        const batch = self.batch;
+        self.batch = undefined;
+        self.muted = false;
+        self.clear();
+        snapshot.forEach(([target, uid]) =>
+          self.setEntry(target, uid, metas.get(uid))
+        );
+        // restored entries keep their place for `page` cursors
+        self.order = order;
+        self.retired = retired;
+        const kept = new Set<string>(snapshot.map(([, uid]) => uid));
+        const added = batch.added.filter((uid) => !kept.has(uid));
+        if (added.length) self.generator.deleteExisting(added);
+        throw error;
+      }
+
+      const batch = self.batch;
+      self.batch = undefined;
+      if (batch.sync) {
+        self.updateGenerator(batch.extra);
+      } else {
+        const released = batch.released.filter((uid) => !self.index.has(uid));
+        if (released.length) self.generator.deleteExisting(released);
+      }
+      if (batch.events.length) {
+        self.persist();
+        batch.events.forEach((event) => self.publish(event));
+        self.notify({ type: 'batch', events: batch.events });
+      }
+      return result;
+    },
+
     /**
      * Clear all currently held target:UID associations.
      */
     reset: () => {
-      self.map.clear();
+      self.clear();
       self.updateGenerator();
+      self.emit({ type: 'reset' });
+    },
+
+    /**
+     * Resolves once the state has been hydrated from `storage`, with the same result
+     * `setEntries` returns: entries whose stored UID was a duplicate are reported in
+     * `changed`, and entries that could not be restored in `invalid`. Resolves to
+     * `false` if the state could not be read or restored. Synchronous adapters hydrate
+     * before the manager is returned.
+     */
+    ready: undefined as Promise<KDUIDSetEntriesResult<K, U> | false>,
+
+    /**
+     * Write any pending debounced change to `storage` immediately.
+     * @returns A `Promise` that resolves once the write is done.
+     */
+    flush: (): Promise<void> => {
+      if (self.timer === undefined) return Promise.resolve();
+      clearTimeout(self.timer);
+      self.timer = undefined;
+      return self.save();
+    },
+
+    /**
+     * Listen for changes to the manager. See `KDUIDManagerEvent` for the emitted events.
+     * @param {KDUIDManagerListener} listener - Called with every change event.
+     * @returns A function that removes the listener.
+     */
+    subscribe: (listener: KDUIDManagerListener<K, U>): (() => void) => {
+      self.listeners.add(listener);
+      return () => {
+        self.listeners.delete(listener);
+      };
     },
   };
 
+  _self.ready = self.load();
+  self.connect();
+
   Object.freeze(_self);
 
   return _self;
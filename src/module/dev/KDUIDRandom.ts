@@ -0,0 +1,160 @@
+/**
+ * @file KDUIDRandom.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDRandom, KDUIDSeededRandom`
+ * Random byte providers for `KDUID`. The environment's cryptographically secure
+ * source is detected from `globalThis.crypto` (browsers, web workers, Node 19+)
+ * or Node's `crypto` module, with a non-cryptographic `Math.random` fallback and
+ * a seeded deterministic source for tests.
+ */
+
+/**
+ * Fill the given array with random bytes and return it.
+ */
+export type KDUIDRandomSource = (bytes: Uint8Array) => Uint8Array;
+
+/**
+ * The position of a seeded sequence: its seed, and how many 32-bit values have been
+ * drawn from it.
+ */
+export type KDUIDSeedState = {
+  seed: number | string;
+  counter: number;
+};
+
+/**
+ * A random source created by `KDUIDSeededRandom`, able to report its position.
+ */
+export type KDUIDSeededSource = KDUIDRandomSource & {
+  state: () => KDUIDSeedState;
+};
+
+/**
+ * Minimal shape of the Web Crypto API used here.
+ */
+type CryptoLike = { getRandomValues: (array: Uint8Array) => Uint8Array };
+
+/**
+ * Use the Web Crypto API from `globalThis`, if there is one.
+ * @returns {KDUIDRandomSource | undefined}
+ */
+const detectWebCrypto = (): KDUIDRandomSource | undefined => {
+  const root: any = typeof globalThis !== 'undefined' ? globalThis : undefined;
+  const crypto: CryptoLike | undefined = root && root.crypto;
+  if (crypto && typeof crypto.getRandomValues === 'function') {
+    return (bytes) => crypto.getRandomValues(bytes);
+  }
+  return;
+};
+
+/**
+ * Use Node's `crypto` module, preferring `webcrypto` (Node 15+) over
+ * `randomFillSync`, if `require` is available. Bundlers replace `crypto` with an empty
+ * module, see `browser` in package.json.
+ * @returns {KDUIDRandomSource | undefined}
+ */
+const detectNodeCrypto = (): KDUIDRandomSource | undefined => {
+  try {
+    if (typeof require !== 'function') return;
+    const crypto = require('crypto');
+    const webcrypto: CryptoLike | undefined = crypto && crypto.webcrypto;
+    if (webcrypto && typeof webcrypto.getRandomValues === 'function') {
+      return (bytes) => webcrypto.getRandomValues(bytes);
+    }
+    if (crypto && typeof crypto.randomFillSync === 'function') {
+      return (bytes) => crypto.randomFillSync(bytes);
+    }
+  } catch {
+    // not running under Node
+  }
+  return;
+};
+
+/**
+ * Non-cryptographic fallback using `Math.random`.
+ * @param {Uint8Array} bytes - The array to fill.
+ * @returns {Uint8Array}
+ */
+export const KDUIDMathRandom: KDUIDRandomSource = (bytes) => {
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = (Math.random() * 0x100) >>> 0;
+  }
+  return bytes;
+};
+
+/**
+ * Detect the environment's cryptographically secure random source. Falls back to
+ * `Math.random` unless `strict` is set, in which case an error is thrown instead.
+ * @param {boolean} [strict] - Throw if no cryptographically secure source exists.
+ * @returns {KDUIDRandomSource}
+ */
+export const KDUIDRandom = (strict?: boolean): KDUIDRandomSource => {
+  const source = detectWebCrypto() || detectNodeCrypto();
+  if (source) return source;
+  if (strict) {
+    throw new Error('KDUIDRandom - no cryptographically secure source found');
+  }
+  return KDUIDMathRandom;
+};
+
+/**
+ * Hash a string seed to a 32-bit integer with FNV-1a.
+ * @param {string} seed - The seed string.
+ * @returns {number}
+ */
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic, non-cryptographic random source for tests and replays. The same seed
+ * always produces the same bytes.
+ *
+ * Uses splitmix32: a 32-bit state starts at the seed and advances by `0x9e3779b9` for
+ * each value drawn, and each value is the state passed through the MurmurHash3
+ * finalizer. Bytes are taken from each value least significant first. String seeds are
+ * hashed to 32 bits with FNV-1a. Since the state only depends on the seed and the
+ * number of values drawn, a sequence can be resumed from any `counter`.
+ * @param {number | string} seed - Numbers are used as-is, strings are hashed.
+ * @param {number} [counter] - Start after this many 32-bit values. Defaults to `0`.
+ * @returns {KDUIDSeededSource}
+ */
+export const KDUIDSeededRandom = (
+  seed: number | string,
+  counter: number = 0
+): KDUIDSeededSource => {
+  if (!(Number.isSafeInteger(counter) && counter >= 0)) {
+    throw new RangeError(
+      'KDUIDSeededRandom - counter must be a positive integer'
+    );
+  }
+  const start = (typeof seed === 'string' ? hashSeed(seed) : seed) >>> 0;
+  let state = (start + Math.imul(counter, 0x9e3779b9)) | 0;
+  let drawn = counter;
+  const next = (): number => {
+    drawn++;
+    state = (state + 0x9e3779b9) | 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+  const source = ((bytes: Uint8Array) => {
+    for (let i = 0; i < bytes.length; i += 4) {
+      const value = next();
+      for (let b = 0; b < 4 && i + b < bytes.length; b++) {
+        bytes[i + b] = (value >>> (b * 8)) & 0xff;
+      }
+    }
+    return bytes;
+  }) as KDUIDSeededSource;
+  source.state = () => ({ seed: seed, counter: drawn });
+  return source;
+};
@@ -0,0 +1,208 @@
+/**
+ * @file KDUIDReact.tsx
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDManagerProvider, useUID, useUIDManager, KDUIDServerIds`
+ * Optional React bindings. Components get UIDs that stay the same across renders,
+ * are held by a shared `KDUIDManager` while they are mounted, and are replayed on the
+ * client from the ones rendered on the server. Requires React 18 or later.
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useId,
+  useReducer,
+  useState,
+} from 'react';
+import { KDUIDManager } from './KDUIDManager';
+
+/**
+ * The manager the bindings use.
+ */
+export type KDUIDReactManager = ReturnType<typeof KDUIDManager>;
+
+/**
+ * Props for `KDUIDManagerProvider`.
+ */
+export type KDUIDManagerProviderProps = {
+  /**
+   * The manager shared by the components below. Defaults to a new manager for each
+   * provider. On the server, use a new manager for each request.
+   */
+  manager?: KDUIDReactManager;
+
+  /**
+   * The UIDs rendered on the server, from `KDUIDServerIds`. They are restored before
+   * the first render, so hydrated components get the same UIDs.
+   */
+  ids?: [string, string][];
+
+  children?: React.ReactNode;
+};
+
+/**
+ * A manager and the number of mounted components using each of its keys.
+ */
+type Binding = {
+  manager: KDUIDReactManager;
+  mounted: Map<any, number>;
+};
+
+/**
+ * Check if the bindings are running on the server, where effects never run.
+ * @returns {boolean}
+ */
+const isServer = (): boolean => typeof document === 'undefined';
+
+/**
+ * Create the binding for a manager.
+ * @param {KDUIDReactManager} manager - The manager.
+ * @returns {Binding}
+ */
+const bind = (manager: KDUIDReactManager): Binding => ({
+  manager: manager,
+  mounted: new Map(),
+});
+
+/**
+ * Release a key once no mounted component uses it. Deferred, so an effect that is
+ * cleaned up and run again at once, eg. by StrictMode, keeps its UID.
+ * @param {Binding} binding - The binding.
+ * @param {any} key - The key.
+ */
+const releaseLater = (binding: Binding, key: any) => {
+  setTimeout(() => {
+    if (!binding.mounted.get(key)) binding.manager.deleteEntryForKey(key);
+  }, 0);
+};
+
+/**
+ * The binding used by components outside a provider in the browser, created when
+ * first needed.
+ */
+let fallback: Binding | undefined;
+
+const KDUIDContext = createContext<Binding | undefined>(undefined);
+
+/**
+ * Share a manager with the components below. `useUID` and `useUIDManager` use the
+ * nearest provider, or a default manager if there is none. On the server a provider
+ * is required.
+ * @param {KDUIDManagerProviderProps} props - The manager and the server UIDs.
+ *
+ * @example
+ * <KDUIDManagerProvider ids={window.__UIDS__}>
+ *   <App />
+ * </KDUIDManagerProvider>
+ */
+export const KDUIDManagerProvider = (props: KDUIDManagerProviderProps) => {
+  const [binding] = useState(() => {
+    const created = bind(props.manager || KDUIDManager());
+    if (props.ids) created.manager.importEntries(props.ids, { mode: 'merge' });
+    return created;
+  });
+  return (
+    <KDUIDContext.Provider value={binding}>
+      {props.children}
+    </KDUIDContext.Provider>
+  );
+};
+
+/**
+ * Retrieve the binding of the nearest provider.
+ * @returns {Binding}
+ * @throws {Error} If there is no provider on the server.
+ */
+const useBinding = (): Binding => {
+  const binding = useContext(KDUIDContext);
+  if (binding) return binding;
+  // entries are never released on the server, so a shared manager would keep every
+  // request's UIDs and hand them to the next one
+  if (isServer()) {
+    throw new Error(
+      'KDUIDReact - a KDUIDManagerProvider is required on the server'
+    );
+  }
+  if (!fallback) fallback = bind(KDUIDManager());
+  return fallback;
+};
+
+/**
+ * Retrieve the manager of the nearest provider.
+ * @returns The `KDUIDManager`.
+ */
+export const useUIDManager = (): KDUIDReactManager => useBinding().manager;
+
+/**
+ * Retrieve a UID that stays the same for as long as the component is mounted. Without
+ * a target, the UID belongs to this component instance and is keyed by React's
+ * `useId`, so it matches the one rendered on the server. With a target, every
+ * component using it shares its UID. The entry is released once no mounted component
+ * uses it.
+ * @param {any} [target] - The entity reference.
+ * @returns The UID `string`.
+ *
+ * @example
+ * const Field = ({ label }) => {
+ *   const uid = useUID();
+ *   return (
+ *     <>
+ *       <label htmlFor={uid}>{label}</label>
+ *       <input id={uid} />
+ *     </>
+ *   );
+ * };
+ */
+export const useUID = (target?: any): string => {
+  const binding = useBinding();
+  const { manager } = binding;
+  const instance = useId();
+  const key = target === undefined ? instance : target;
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+
+  let uid = manager.getUIDFor(key);
+  if (uid === undefined) {
+    uid = manager.generateUIDFor(key);
+    // a render can be thrown away without ever mounting
+    if (!isServer()) releaseLater(binding, key);
+  }
+
+  useEffect(() => {
+    binding.mounted.set(key, (binding.mounted.get(key) || 0) + 1);
+    // restore an entry released before the component mounted
+    if (!manager.hasUIDFor(key)) {
+      manager.importEntries([[key, uid]], { mode: 'merge' });
+    }
+    if (manager.getUIDFor(key) !== uid) refresh();
+    return () => {
+      const count = binding.mounted.get(key) - 1;
+      if (count > 0) binding.mounted.set(key, count);
+      else binding.mounted.delete(key);
+      releaseLater(binding, key);
+    };
+  }, [binding, key]);
+
+  return uid;
+};
+
+/**
+ * Retrieve the UIDs rendered by `useUID` without a target, to send to the client and
+ * pass to its `KDUIDManagerProvider` as `ids`.
+ * @param {KDUIDReactManager} manager - The manager the server rendered with.
+ * @returns An `array` holding each `[instance, uid]` entry.
+ *
+ * @example
+ * const manager = KDUIDManager();
+ * const html = renderToString(
+ *   <KDUIDManagerProvider manager={manager}><App /></KDUIDManagerProvider>
+ * );
+ * const ids = JSON.stringify(KDUIDServerIds(manager));
+ */
+export const KDUIDServerIds = (
+  manager: KDUIDReactManager
+): [string, string][] =>
+  manager.filter((key) => typeof key === 'string') as [string, string][];
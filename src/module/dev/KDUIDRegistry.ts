@@ -0,0 +1,327 @@
+/**
+ * @file KDUIDRegistry.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDRegistry`
+ * Create named `KDUIDManager` namespaces, eg. one per entity kind, that share one
+ * generator and collision store so UIDs are unique across every namespace.
+ */
+
+import { KDUID, KDUIDInstance, KDUIDOptions } from './KDUID';
+import { KDUIDDecode } from './KDUIDEncoding';
+import { KDUIDManager, KDUIDManagerOptions } from './KDUIDManager';
+
+/**
+ * Options for the `KDUIDRegistry` factory.
+ */
+export type KDUIDRegistryOptions = {
+  /**
+   * Options for the shared generator. See `KDUIDOptions`.
+   */
+  generator?: KDUIDOptions;
+};
+
+/**
+ * Options for a namespace created with `KDUIDRegistry.namespace()`.
+ */
+export type KDUIDNamespaceOptions<U extends string = string> = Omit<
+  KDUIDManagerOptions<U>,
+  'generator' | 'isClaimed'
+> & {
+  /**
+   * A byte (`0` to `255`) embedded in every random or time-based UID the namespace
+   * generates, as the first byte of the last group (`xxxxxxxx-xxxx-xxxx-xxxx-TTxxxxxxxxxx`).
+   * Lets `ownerOf` identify the namespace of UIDs it no longer holds, eg. from a previous
+   * session. Each tag may only be used by one namespace. Name-based and nil/max UIDs
+   * are never tagged. Not allowed when the generator has a `node`, whose bits the tag
+   * would overwrite.
+   */
+  tag?: number;
+};
+
+/**
+ * Write a tag byte into a canonical UID.
+ * @param {string} uid - The canonical UID string.
+ * @param {number} tag - The tag byte.
+ * @returns {string}
+ */
+const withTag = (uid: string, tag: number): string =>
+  uid.slice(0, 24) + (tag < 16 ? '0' : '') + tag.toString(16) + uid.slice(26);
+
+/**
+ * Check if a UID is name-based (version 3 or 5) or the nil/max identifier, which are
+ * never tagged.
+ * @param {string} uid - The canonical UID string.
+ * @returns {boolean}
+ */
+const isDeterministic = (uid: string): boolean =>
+  /^.{14}[35]|^0{8}-0{4}-0{4}|^f{8}-f{4}-f{4}/i.test(uid);
+
+/**
+ * Read the tag byte of a UID given in any form.
+ * @param {string} uid - The UID in any form.
+ * @returns {number | undefined}
+ */
+const tagOf = (uid: string): number | undefined => {
+  const hex = KDUIDDecode(uid);
+  return hex === undefined ? undefined : parseInt(hex.slice(24, 26), 16);
+};
+
+/**
+ * Create named `KDUIDManager` namespaces sharing one generator and collision store,
+ * so UIDs are unique across every namespace.
+ * @param {KDUIDRegistryOptions} [options] - Configure the shared generator.
+ * @returns
+ *
+ * @example
+ * const registry = KDUIDRegistry();
+ * const users = registry.namespace<User, Uid<'User'>>('users', { tag: 1 });
+ * const documents = registry.namespace<Doc, Uid<'Document'>>('documents', { tag: 2 });
+ * const uid = users.generateUIDFor(user);
+ * registry.ownerOf(uid); // 'users'
+ */
+export const KDUIDRegistry = (options?: KDUIDRegistryOptions) => {
+  const self = {
+    generator: KDUID([], options && options.generator),
+    /**
+     * Whether the shared generator has a `node`, which rules out tags.
+     */
+    hasNode: !!(
+      options &&
+      options.generator &&
+      options.generator.node !== undefined
+    ),
+    namespaces: new Map<
+      string,
+      { manager: ReturnType<typeof KDUIDManager>; tag?: number }
+    >(),
+    /**
+     * The namespace that claimed each UID, keyed by the canonical form.
+     */
+    owners: new Map<string, string>(),
+    /**
+     * Canonical form of a UID, used to key `owners`.
+     * @param {string} uid - The UID in any form.
+     */
+    canonical: (uid: string): string => KDUIDDecode(uid) || uid,
+    /**
+     * Check if a UID is claimed by a namespace other than `name`.
+     * @param {string} name - The namespace name.
+     * @param {string} uid - The UID in any form.
+     */
+    isClaimedElsewhere: (name: string, uid: string): boolean => {
+      const owner = self.owners.get(self.canonical(uid));
+      return owner !== undefined && owner !== name;
+    },
+    /**
+     * Create the generator view a namespace's manager uses. UIDs are generated by and
+     * stored in the shared generator, but the view only lists, replaces and releases
+     * the UIDs claimed by its own namespace.
+     * @param {string} name - The namespace name.
+     * @param {number} [tag] - The namespace tag byte.
+     */
+    scope: (name: string, tag?: number): KDUIDInstance => {
+      const shared = self.generator;
+      const owned = new Set<string>();
+      const claim = (uid: string) => {
+        owned.add(uid);
+        self.owners.set(self.canonical(uid), name);
+      };
+      const release = (uid: string) => {
+        owned.delete(uid);
+        self.owners.delete(self.canonical(uid));
+        shared.deleteExisting(uid);
+      };
+      return {
+        ...shared,
+        generate: (options) => {
+          let uid = shared.generate(options);
+          if (tag !== undefined && !isDeterministic(uid)) {
+            shared.deleteExisting(uid);
+            let tagged = withTag(uid, tag);
+            while (shared.hasExisting(tagged)) {
+              const raw = shared.generate(options);
+              shared.deleteExisting(raw);
+              tagged = withTag(raw, tag);
+            }
+            shared.addExisting(tagged);
+            uid = tagged;
+          }
+          claim(uid);
+          return uid;
+        },
+        getExisting: () => Array.from(owned),
+        setExisting: (uuids: string[]): boolean => {
+          if (shared.validate(uuids, 'any').length !== uuids.length)
+            return false;
+          const claimable = uuids.filter(
+            (uid) => !self.isClaimedElsewhere(name, uid)
+          );
+          const next = new Set(claimable);
+          owned.forEach((uid) => {
+            if (!next.has(uid)) release(uid);
+          });
+          shared.addExisting(claimable);
+          claimable.forEach(claim);
+          return claimable.length === uuids.length;
+        },
+        addExisting: (uuids: string | string[]): boolean => {
+          const arr = Array.isArray(uuids) ? uuids : [uuids];
+          if (arr.some((uid) => self.isClaimedElsewhere(name, uid)))
+            return false;
+          if (!shared.addExisting(arr)) return false;
+          arr.forEach(claim);
+          return true;
+        },
+        deleteExisting: (uuids: string | string[]): boolean => {
+          const arr = Array.isArray(uuids) ? uuids : [uuids];
+          return arr
+            .filter((uid) => owned.has(uid))
+            .map((uid) => {
+              release(uid);
+              return true;
+            })
+            .includes(true);
+        },
+      };
+    },
+  };
+
+  const _self = {
+    /**
+     * Retrieve the manager for a namespace, creating it if it doesn't exist. Options are
+     * only used when the namespace is created.
+     * @template K - The type of the managed keys.
+     * @template U - The UID type, eg. a branded `Uid<'User'>`.
+     * @param {string} name - The namespace name.
+     * @param {KDUIDNamespaceOptions} [options] - Enable weak mode or set a tag.
+     * @returns The namespace's `KDUIDManager`.
+     */
+    namespace: <K = any, U extends string = string>(
+      name: string,
+      options?: KDUIDNamespaceOptions<U>
+    ) => {
+      const { tag, ...managerOptions } = options || ({} as typeof options);
+      const create = () => {
+        if (tag !== undefined) {
+          if (self.hasNode) {
+            throw new TypeError(
+              'KDUIDRegistry - tags cannot be used with a generator node'
+            );
+          }
+          if (!(Number.isInteger(tag) && tag >= 0 && tag <= 255)) {
+            throw new RangeError(
+              'KDUIDRegistry - tag must be a byte (0 to 255)'
+            );
+          }
+          self.namespaces.forEach((namespace, other) => {
+            if (namespace.tag === tag) {
+              throw new RangeError(
+                `KDUIDRegistry - tag ${tag} is already used by ${other}`
+              );
+            }
+          });
+        }
+        return KDUIDManager<K, U>({
+          ...managerOptions,
+          generator: self.scope(name, tag),
+          isClaimed: (uid) => self.isClaimedElsewhere(name, uid),
+        });
+      };
+      const existing = self.namespaces.get(name);
+      if (existing) return existing.manager as ReturnType<typeof create>;
+      const manager = create();
+      self.namespaces.set(name, {
+        manager: manager,
+        tag: tag,
+      });
+      return manager;
+    },
+
+    /**
+     * Check if a namespace exists.
+     * @param {string} name - The namespace name.
+     * @returns {boolean}
+     */
+    has: (name: string): boolean => self.namespaces.has(name),
+
+    /**
+     * Retrieve a new array containing every namespace name.
+     * @returns {string[]}
+     */
+    names: (): string[] => Array.from(self.namespaces.keys()),
+
+    /**
+     * Find the namespace that owns a UID. The UID may be given in any form. Checks the
+     * UIDs claimed by each namespace, then falls back to the namespace whose `tag`
+     * matches.
+     * @param {string} uid - The UID string.
+     * @returns {string | undefined} The namespace name, or `undefined` if none owns it.
+     */
+    ownerOf: (uid: string): string | undefined => {
+      const owner = self.owners.get(self.canonical(uid));
+      if (owner !== undefined) return owner;
+      const tag = tagOf(uid);
+      if (tag === undefined) return;
+      let tagged: string | undefined;
+      self.namespaces.forEach((namespace, name) => {
+        if (namespace.tag === tag) tagged = name;
+      });
+      return tagged;
+    },
+
+    /**
+     * Retrieve the key for a UID from whichever namespace holds it. The UID may be
+     * given in any form.
+     * @param {string} uid - The UID string.
+     * @returns `{ namespace, key }`, or `undefined` if no namespace holds the UID.
+     */
+    getKeyFor: (uid: string): { namespace: string; key: any } | undefined => {
+      const names = _self.names();
+      for (let i = 0; i < names.length; i++) {
+        const manager = self.namespaces.get(names[i]).manager;
+        if (manager.hasKeyFor(uid)) {
+          return { namespace: names[i], key: manager.getKeyFor(uid) };
+        }
+      }
+      return;
+    },
+
+    /**
+     * Clear the entries of one namespace, or of every namespace if no name is given,
+     * releasing their UIDs from the shared generator.
+     * @param {string} [name] - The namespace name.
+     * @returns `true` if successful.
+     */
+    reset: (name?: string): boolean => {
+      if (name === undefined) {
+        self.namespaces.forEach((namespace) => namespace.manager.reset());
+        return true;
+      }
+      const namespace = self.namespaces.get(name);
+      if (!namespace) {
+        console.error(`reset - namespace ${name} doesn't exist`);
+        return false;
+      }
+      namespace.manager.reset();
+      return true;
+    },
+
+    /**
+     * Reset a namespace and remove it from the registry.
+     * @param {string} name - The namespace name.
+     * @returns `true` if successful.
+     */
+    delete: (name: string): boolean => {
+      if (!_self.reset(name)) return false;
+      self.namespaces.delete(name);
+      return true;
+    },
+  };
+
+  Object.freeze(_self);
+
+  return _self;
+};
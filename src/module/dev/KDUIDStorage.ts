@@ -0,0 +1,213 @@
+/**
+ * @file KDUIDStorage.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDLocalStorage, KDUIDAsyncStorage, KDUIDIndexedDBStorage,
+ * KDUIDMemoryStorage, KDUIDFileStorage`
+ * Storage adapters used by `KDUIDManager` to persist its state on every change and
+ * hydrate it when the manager is created.
+ */
+
+import { KDUIDManagerState } from './KDUIDManager';
+
+/**
+ * A value read from storage: the state, its JSON string, or nothing if no state was
+ * saved yet.
+ */
+export type KDUIDStoredState = KDUIDManagerState | string | null | undefined;
+
+/**
+ * Reads and writes a `KDUIDManager` snapshot. Either method may be synchronous or
+ * return a `Promise`.
+ */
+export type KDUIDStorageAdapter = {
+  /**
+   * Read the saved snapshot.
+   */
+  load: () => KDUIDStoredState | Promise<KDUIDStoredState>;
+
+  /**
+   * Write a snapshot, replacing the saved one.
+   */
+  save: (state: KDUIDManagerState) => void | Promise<void>;
+};
+
+/**
+ * Minimal shape of the Web Storage API used here.
+ */
+type StorageLike = {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+};
+
+/**
+ * Minimal shape of an asynchronous key-value store, eg. `idb-keyval` or `localForage`.
+ * Values must survive a structured clone.
+ */
+export type KDUIDAsyncStore = {
+  get: (key: string) => Promise<any>;
+  set: (key: string, value: any) => Promise<any>;
+};
+
+/**
+ * Persist to `localStorage` (or any object with the same `getItem`/`setItem` methods)
+ * as a JSON string.
+ * @param {string} [key] - The storage key. Defaults to `'KDUIDManager'`.
+ * @param {StorageLike} [storage] - Defaults to `globalThis.localStorage`.
+ * @returns {KDUIDStorageAdapter}
+ */
+export const KDUIDLocalStorage = (
+  key: string = 'KDUIDManager',
+  storage?: StorageLike
+): KDUIDStorageAdapter => {
+  const root: any = typeof globalThis !== 'undefined' ? globalThis : undefined;
+  const target: StorageLike | undefined =
+    storage || (root && root.localStorage);
+  if (!target) {
+    throw new Error('KDUIDLocalStorage - localStorage is not available');
+  }
+  return {
+    load: () => target.getItem(key),
+    save: (state) => target.setItem(key, JSON.stringify(state)),
+  };
+};
+
+/**
+ * Persist to an asynchronous key-value store.
+ * @param {KDUIDAsyncStore} store - The key-value store.
+ * @param {string} [key] - The storage key. Defaults to `'KDUIDManager'`.
+ * @returns {KDUIDStorageAdapter}
+ */
+export const KDUIDAsyncStorage = (
+  store: KDUIDAsyncStore,
+  key: string = 'KDUIDManager'
+): KDUIDStorageAdapter => ({
+  load: () => store.get(key),
+  save: (state) => store.set(key, state).then(() => undefined),
+});
+
+/**
+ * Options for `KDUIDIndexedDBStorage`.
+ */
+export type KDUIDIndexedDBOptions = {
+  /**
+   * The database name. Defaults to `'KDUIDManager'`.
+   */
+  database?: string;
+
+  /**
+   * The object store name. Defaults to `'state'`.
+   */
+  objectStore?: string;
+
+  /**
+   * The key the snapshot is saved under. Defaults to `'KDUIDManager'`.
+   */
+  key?: string;
+
+  /**
+   * Defaults to `globalThis.indexedDB`.
+   */
+  indexedDB?: IDBFactory;
+};
+
+/**
+ * Persist to IndexedDB. The database is opened on first use and the snapshot is saved
+ * as a structured clone.
+ * @param {KDUIDIndexedDBOptions} [options] - Names for the database, object store and key.
+ * @returns {KDUIDStorageAdapter}
+ */
+export const KDUIDIndexedDBStorage = (
+  options?: KDUIDIndexedDBOptions
+): KDUIDStorageAdapter => {
+  const opts = options || {};
+  const root: any = typeof globalThis !== 'undefined' ? globalThis : undefined;
+  const factory: IDBFactory | undefined =
+    opts.indexedDB || (root && root.indexedDB);
+  if (!factory) {
+    throw new Error('KDUIDIndexedDBStorage - indexedDB is not available');
+  }
+  const database = opts.database || 'KDUIDManager';
+  const objectStore = opts.objectStore || 'state';
+
+  let db: Promise<IDBDatabase> | undefined;
+  const open = (): Promise<IDBDatabase> =>
+    db ||
+    (db = new Promise((resolve, reject) => {
+      const request = factory.open(database, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(objectStore);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+  const run = (
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest
+  ): Promise<any> =>
+    open().then(
+      (connection) =>
+        new Promise((resolve, reject) => {
+          const transaction = connection.transaction(objectStore, mode);
+          const request = fn(transaction.objectStore(objectStore));
+          transaction.oncomplete = () => resolve(request.result);
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        })
+    );
+
+  return KDUIDAsyncStorage(
+    {
+      get: (key) => run('readonly', (store) => store.get(key)),
+      set: (key, value) => run('readwrite', (store) => store.put(value, key)),
+    },
+    opts.key
+  );
+};
+
+/**
+ * Persist in memory as a JSON string, eg. for tests or to share state between managers
+ * in one session.
+ * @param {KDUIDStoredState} [initial] - The state to start with.
+ * @returns {KDUIDStorageAdapter}
+ */
+export const KDUIDMemoryStorage = (
+  initial?: KDUIDStoredState
+): KDUIDStorageAdapter => {
+  let saved: string | undefined =
+    initial === null || initial === undefined
+      ? undefined
+      : typeof initial === 'string'
+      ? initial
+      : JSON.stringify(initial);
+  return {
+    load: () => saved,
+    save: (state) => {
+      saved = JSON.stringify(state);
+    },
+  };
+};
+
+/**
+ * Persist to a JSON file with Node's `fs` module. Each save writes a temporary file and
+ * renames it over the previous one, so a crash never leaves a partial file.
+ * @param {string} path - The file path.
+ * @returns {KDUIDStorageAdapter}
+ */
+export const KDUIDFileStorage = (path: string): KDUIDStorageAdapter => {
+  // bundlers replace `fs` with an empty module, see `browser` in package.json
+  const fs = typeof require === 'function' ? require('fs') : undefined;
+  if (!fs || typeof fs.readFileSync !== 'function') {
+    throw new Error('KDUIDFileStorage - requires Node');
+  }
+  return {
+    load: () =>
+      fs.existsSync(path) ? fs.readFileSync(path, 'utf8') : undefined,
+    save: (state) => {
+      const temp = `${path}.${Date.now()}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify(state));
+      fs.renameSync(temp, path);
+    },
+  };
+};
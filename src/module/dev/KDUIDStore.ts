@@ -0,0 +1,169 @@
+/**
+ * @file KDUIDStore.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDStore`
+ * Collision stores used by `KDUID` to remember previously generated UUIDs. The
+ * store is hashed so membership checks take constant time, and can be bounded
+ * with LRU eviction or replaced by a probabilistic Bloom filter.
+ */
+
+/**
+ * Retention strategy for previously generated UUIDs.
+ *
+ * - `unbounded` keeps every UUID in a `Set`. Uniqueness is absolute.
+ * - `lru` keeps at most `maxSize` UUIDs, evicting the least recently used. A UUID is
+ * used when it is added or found by `has`. Evicted UUIDs are no longer checked
+ * against.
+ * - `bloom` keeps a Bloom filter sized for `capacity` UUIDs at the given
+ * `falsePositiveRate`. Memory is fixed and UUIDs are never forgotten, but a false
+ * positive causes an unnecessary regeneration and the contents cannot be listed
+ * or deleted.
+ */
+export type KDUIDRetention =
+  | { mode: 'unbounded' }
+  | { mode: 'lru'; maxSize: number }
+  | { mode: 'bloom'; capacity: number; falsePositiveRate: number };
+
+/**
+ * Interface shared by every collision store.
+ */
+export type KDUIDStoreInstance = {
+  /**
+   * Check if the UUID has been stored. Probabilistic stores may return false positives.
+   */
+  has: (uid: string) => boolean;
+
+  /**
+   * Store a UUID.
+   */
+  add: (uid: string) => void;
+
+  /**
+   * Remove a UUID. Returns `true` if it was removed. Always `false` for stores that
+   * cannot delete.
+   */
+  delete: (uid: string) => boolean;
+
+  /**
+   * Remove every UUID.
+   */
+  clear: () => void;
+
+  /**
+   * List every stored UUID in insertion order, or `undefined` if the store cannot list
+   * its contents.
+   */
+  list: () => string[] | undefined;
+};
+
+/**
+ * Unbounded store backed by a `Set`.
+ * @returns {KDUIDStoreInstance}
+ */
+const setStore = (): KDUIDStoreInstance => {
+  const set = new Set<string>();
+  return {
+    has: (uid) => set.has(uid),
+    add: (uid) => {
+      set.add(uid);
+    },
+    delete: (uid) => set.delete(uid),
+    clear: () => set.clear(),
+    list: () => Array.from(set),
+  };
+};
+
+/**
+ * Bounded store evicting the least recently used UUID. A `Set` iterates in insertion
+ * order, so re-adding a UUID, or finding it with `has`, moves it to the end and the
+ * first entry is always the least recently used.
+ * @param {number} maxSize - The maximum number of UUIDs to keep.
+ * @returns {KDUIDStoreInstance}
+ */
+const lruStore = (maxSize: number): KDUIDStoreInstance => {
+  if (!(maxSize > 0)) throw new RangeError('KDUIDStore - maxSize must be > 0');
+  const set = new Set<string>();
+  return {
+    has: (uid) => {
+      if (!set.delete(uid)) return false;
+      set.add(uid);
+      return true;
+    },
+    add: (uid) => {
+      set.delete(uid);
+      set.add(uid);
+      if (set.size > maxSize) set.delete(set.values().next().value);
+    },
+    delete: (uid) => set.delete(uid),
+    clear: () => set.clear(),
+    list: () => Array.from(set),
+  };
+};
+
+/**
+ * Probabilistic store using a Bloom filter with double hashing (FNV-1a and djb2).
+ * @param {number} capacity - The expected number of UUIDs.
+ * @param {number} falsePositiveRate - The false positive rate at `capacity`, eg. `0.001`.
+ * @returns {KDUIDStoreInstance}
+ */
+const bloomStore = (
+  capacity: number,
+  falsePositiveRate: number
+): KDUIDStoreInstance => {
+  if (!(capacity > 0))
+    throw new RangeError('KDUIDStore - capacity must be > 0');
+  if (!(falsePositiveRate > 0 && falsePositiveRate < 1)) {
+    throw new RangeError('KDUIDStore - falsePositiveRate must be in (0, 1)');
+  }
+  const bits = Math.ceil(
+    (-capacity * Math.log(falsePositiveRate)) / (Math.LN2 * Math.LN2)
+  );
+  const hashes = Math.max(1, Math.round((bits / capacity) * Math.LN2));
+  let filter = new Uint32Array(Math.ceil(bits / 32));
+
+  const positions = (uid: string): number[] => {
+    let fnv = 0x811c9dc5;
+    let djb = 5381;
+    for (let i = 0; i < uid.length; i++) {
+      const code = uid.charCodeAt(i);
+      fnv = Math.imul(fnv ^ code, 0x01000193);
+      djb = (Math.imul(djb, 33) + code) | 0;
+    }
+    const h1 = fnv >>> 0;
+    const h2 = (djb >>> 0) | 1;
+    return Array(hashes)
+      .fill(null)
+      .map((_, i) => ((h1 + Math.imul(i, h2)) >>> 0) % bits);
+  };
+
+  return {
+    has: (uid) =>
+      positions(uid).every(
+        (bit) => (filter[bit >>> 5] & (1 << (bit & 31))) !== 0
+      ),
+    add: (uid) =>
+      positions(uid).forEach((bit) => (filter[bit >>> 5] |= 1 << (bit & 31))),
+    delete: () => false,
+    clear: () => {
+      filter = new Uint32Array(filter.length);
+    },
+    list: () => undefined,
+  };
+};
+
+/**
+ * Create a collision store for the given retention strategy. Defaults to `unbounded`.
+ * @param {KDUIDRetention} [retention] - The retention strategy.
+ * @returns {KDUIDStoreInstance}
+ */
+export const KDUIDStore = (retention?: KDUIDRetention): KDUIDStoreInstance => {
+  if (!retention || retention.mode === 'unbounded') return setStore();
+  if (retention.mode === 'lru') return lruStore(retention.maxSize);
+  if (retention.mode === 'bloom') {
+    return bloomStore(retention.capacity, retention.falsePositiveRate);
+  }
+  throw new TypeError(`KDUIDStore - unknown retention mode`);
+};
@@ -0,0 +1,442 @@
+/**
+ * @file KDUIDSync.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview `export const KDUIDSyncPeer, KDUIDMemoryChannel`
+ * Keep `KDUIDManager` instances in separate tabs or workers in agreement over a
+ * `BroadcastChannel`-style transport. Every assignment carries a Lamport stamp, so
+ * conflicting assignments settle on the same winner in every context.
+ */
+
+import { KDUID } from './KDUID';
+
+/**
+ * The part of `BroadcastChannel` (or a worker `MessagePort`) used for sync. Messages
+ * must survive a structured clone.
+ */
+export type KDUIDSyncTransport = {
+  postMessage: (message: any) => void;
+  addEventListener: (
+    type: 'message',
+    listener: (event: { data: any }) => void
+  ) => void;
+};
+
+/**
+ * A Lamport stamp `[clock, peer]`. Stamps are ordered by clock, then by peer id, so
+ * every context orders them the same way.
+ */
+export type KDUIDSyncStamp = [number, string];
+
+/**
+ * Messages exchanged between peers. Keys are sent as codec descriptors.
+ *
+ * - `hello` a peer joined, announcing its entries. Peers reply with `state`.
+ * - `state` a peer's entries, sent to one peer (`to`) or every peer.
+ * - `set` a key was assigned a UID.
+ * - `delete` an entry was deleted. `key` is missing if the target was collected.
+ * - `reset` every entry was cleared.
+ * - `replace` every entry was replaced, eg. by `setEntries`.
+ */
+export type KDUIDSyncMessage = { kduid: 1; from: string } & (
+  | {
+      type: 'hello' | 'state';
+      to?: string;
+      entries: [any, string, KDUIDSyncStamp][];
+      existing: string[];
+    }
+  | { type: 'set'; key: any; uid: string; stamp: KDUIDSyncStamp }
+  | { type: 'delete'; key?: any; uid: string; stamp: KDUIDSyncStamp }
+  | { type: 'reset'; stamp: KDUIDSyncStamp }
+  | {
+      type: 'replace';
+      entries: [any, string][];
+      existing: string[];
+      stamp: KDUIDSyncStamp;
+    }
+);
+
+/**
+ * How a peer reads and changes its manager. Changes made through the hooks must not
+ * be published back to the peer.
+ */
+export type KDUIDSyncHooks = {
+  /**
+   * Every entry as `[descriptor, uid]`, and the generator's previously generated UIDs.
+   */
+  snapshot: () => { entries: [any, string][]; existing: string[] };
+
+  /**
+   * Assign a UID to the key for a descriptor. Returns `false` if the descriptor can't
+   * be resolved.
+   */
+  assign: (key: any, uid: string) => boolean;
+
+  /**
+   * Delete the entry holding a UID and release the UID.
+   */
+  remove: (uid: string) => void;
+
+  /**
+   * Generate and publish a new UID for the key for a descriptor.
+   */
+  regenerate: (key: any) => void;
+
+  /**
+   * Add UIDs to the generator's previously generated UIDs.
+   */
+  claim: (uids: string[]) => void;
+
+  /**
+   * Release a UID from the generator.
+   */
+  release: (uid: string) => void;
+
+  /**
+   * Clear every entry.
+   */
+  reset: () => void;
+
+  /**
+   * Replace every entry. Returns the descriptors and UIDs actually set.
+   */
+  replace: (entries: [any, string][]) => [any, string][];
+};
+
+/**
+ * Order two stamps.
+ * @param {KDUIDSyncStamp} a - A stamp.
+ * @param {KDUIDSyncStamp} b - A stamp.
+ * @returns {number} Negative if `a` is older, positive if newer, `0` if equal.
+ */
+const compare = (a: KDUIDSyncStamp, b: KDUIDSyncStamp): number =>
+  a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+/**
+ * Sync one manager with its peers. Used by `KDUIDManager` when the `sync` option is
+ * set.
+ *
+ * Conflicts settle the same way in every context:
+ * - A key assigned different UIDs keeps the assignment with the newest stamp.
+ * - A UID assigned to different keys stays with the newest assignment, and the peer
+ * that made the older assignment generates a new UID for its key.
+ * - Assignments older than the last `reset` or `replace` are dropped.
+ *
+ * @param {KDUIDSyncTransport} transport - The channel shared by every peer.
+ * @param {KDUIDSyncHooks} hooks - Reads and changes the manager.
+ * @returns
+ */
+export const KDUIDSyncPeer = (
+  transport: KDUIDSyncTransport,
+  hooks: KDUIDSyncHooks
+) => {
+  const self = {
+    id: KDUID().generate(),
+    clock: 0,
+    /**
+     * Assignments older than this were cleared by a `reset` or `replace`.
+     */
+    floor: [0, ''] as KDUIDSyncStamp,
+    /**
+     * The UID and stamp of each current assignment, keyed by the descriptor's JSON.
+     */
+    assignments: new Map<string, { uid: string; stamp: KDUIDSyncStamp }>(),
+    /**
+     * The descriptor JSON holding each assigned UID.
+     */
+    holders: new Map<string, string>(),
+    /**
+     * Keys this peer lost a UID conflict for, regenerated after each message.
+     */
+    losers: [] as any[],
+    idOf: (key: any): string => JSON.stringify(key),
+    tick: (): KDUIDSyncStamp => [++self.clock, self.id],
+    observe: (stamp: KDUIDSyncStamp) => {
+      self.clock = Math.max(self.clock, stamp[0]);
+    },
+    post: (message: any) => {
+      try {
+        transport.postMessage({ kduid: 1, from: self.id, ...message });
+      } catch {
+        console.error(`sync - error posting ${message.type}`);
+      }
+    },
+    /**
+     * Record an assignment, dropping the previous UID of the key.
+     * @param {string} keyId - The descriptor JSON.
+     * @param {string} uid - The UID string.
+     * @param {KDUIDSyncStamp} stamp - The assignment's stamp.
+     */
+    record: (keyId: string, uid: string, stamp: KDUIDSyncStamp) => {
+      self.forget(keyId);
+      self.assignments.set(keyId, { uid: uid, stamp: stamp });
+      self.holders.set(uid, keyId);
+    },
+    /**
+     * Drop the assignment of a key.
+     * @param {string} keyId - The descriptor JSON.
+     */
+    forget: (keyId: string) => {
+      const assignment = self.assignments.get(keyId);
+      if (!assignment) return;
+      self.assignments.delete(keyId);
+      self.holders.delete(assignment.uid);
+    },
+    /**
+     * The stamp of a key's current assignment. Entries this peer hasn't stamped are
+     * the oldest possible assignment by this peer.
+     * @param {string} keyId - The descriptor JSON.
+     */
+    stampOf: (keyId: string): KDUIDSyncStamp => {
+      const assignment = self.assignments.get(keyId);
+      return assignment ? assignment.stamp : [0, self.id];
+    },
+    /**
+     * Drop every assignment.
+     */
+    clear: () => {
+      self.assignments.clear();
+      self.holders.clear();
+    },
+    /**
+     * Every entry with its stamp, for `hello` and `state` messages.
+     */
+    entries: (): [any, string, KDUIDSyncStamp][] =>
+      hooks
+        .snapshot()
+        .entries.map(([key, uid]) => [key, uid, self.stampOf(self.idOf(key))]),
+    /**
+     * Apply an assignment made by another peer.
+     * @param {any} key - The key descriptor.
+     * @param {string} uid - The UID string.
+     * @param {KDUIDSyncStamp} stamp - The assignment's stamp.
+     */
+    applySet: (key: any, uid: string, stamp: KDUIDSyncStamp) => {
+      self.observe(stamp);
+      hooks.claim([uid]);
+      if (compare(stamp, self.floor) < 0) return;
+      const keyId = self.idOf(key);
+      const current = self.assignments.get(keyId);
+      if (current && compare(current.stamp, stamp) >= 0) return;
+
+      const holder = self.holders.get(uid);
+      if (holder !== undefined && holder !== keyId) {
+        const held = self.stampOf(holder);
+        if (compare(held, stamp) > 0) return;
+        hooks.remove(uid);
+        hooks.claim([uid]);
+        self.forget(holder);
+        if (held[1] === self.id) self.losers.push(JSON.parse(holder));
+      }
+      if (hooks.assign(key, uid)) self.record(keyId, uid, stamp);
+    },
+    /**
+     * Apply a deletion made by another peer.
+     * @param {any} key - The key descriptor, if known.
+     * @param {string} uid - The UID string.
+     * @param {KDUIDSyncStamp} stamp - The deletion's stamp.
+     */
+    applyDelete: (key: any, uid: string, stamp: KDUIDSyncStamp) => {
+      self.observe(stamp);
+      const holder = self.holders.get(uid);
+      if (holder === undefined) {
+        hooks.release(uid);
+        return;
+      }
+      if (key !== undefined && holder !== self.idOf(key)) return;
+      if (compare(self.stampOf(holder), stamp) > 0) return;
+      self.forget(holder);
+      hooks.remove(uid);
+    },
+    /**
+     * Apply a `reset` or `replace` made by another peer.
+     * @param {KDUIDSyncStamp} stamp - The stamp of the reset.
+     * @param {[any, string][]} [entries] - The replacement entries.
+     */
+    applyReset: (stamp: KDUIDSyncStamp, entries?: [any, string][]) => {
+      self.observe(stamp);
+      if (compare(stamp, self.floor) <= 0) return;
+      self.floor = stamp;
+      self.clear();
+      if (!entries) {
+        hooks.reset();
+        return;
+      }
+      hooks
+        .replace(entries)
+        .forEach(([key, uid]) => self.record(self.idOf(key), uid, stamp));
+    },
+    /**
+     * Handle a message from the transport.
+     * @param {{ data: any }} event - The message event.
+     */
+    receive: (event: { data: any }) => {
+      const message: KDUIDSyncMessage = event && event.data;
+      if (!message || message.kduid !== 1 || message.from === self.id) return;
+      try {
+        switch (message.type) {
+          case 'hello':
+          case 'state':
+            if (message.to !== undefined && message.to !== self.id) return;
+            hooks.claim(message.existing);
+            message.entries.forEach(([key, uid, stamp]) =>
+              self.applySet(key, uid, stamp)
+            );
+            if (message.type === 'hello') {
+              self.post({
+                type: 'state',
+                to: message.from,
+                entries: self.entries(),
+                existing: hooks.snapshot().existing,
+              });
+            }
+            break;
+          case 'set':
+            self.applySet(message.key, message.uid, message.stamp);
+            break;
+          case 'delete':
+            self.applyDelete(message.key, message.uid, message.stamp);
+            break;
+          case 'reset':
+            self.applyReset(message.stamp);
+            break;
+          case 'replace':
+            hooks.claim(message.existing);
+            self.applyReset(message.stamp, message.entries);
+            break;
+        }
+      } catch {
+        console.error(`sync - error applying ${message.type}`);
+      }
+      const losers = self.losers.splice(0);
+      losers.forEach((key) => hooks.regenerate(key));
+    },
+  };
+
+  const _self = {
+    /**
+     * The peer id, used to break ties between stamps.
+     */
+    id: self.id,
+
+    /**
+     * Start listening and announce the current entries to other peers.
+     */
+    start: () => {
+      transport.addEventListener('message', self.receive);
+      const snapshot = hooks.snapshot();
+      snapshot.entries.forEach(([key, uid]) =>
+        self.record(self.idOf(key), uid, [0, self.id])
+      );
+      self.post({
+        type: 'hello',
+        entries: self.entries(),
+        existing: snapshot.existing,
+      });
+    },
+
+    /**
+     * Publish entries restored locally, eg. from storage, without replacing the
+     * entries of other peers. They lose any conflict with a local change.
+     * @param {[any, string][]} entries - The restored `[descriptor, uid]` entries.
+     */
+    announce: (entries: [any, string][]) => {
+      entries.forEach(([key, uid]) =>
+        self.record(self.idOf(key), uid, [0, self.id])
+      );
+      self.post({
+        type: 'state',
+        entries: self.entries(),
+        existing: hooks.snapshot().existing,
+      });
+    },
+
+    /**
+     * Publish a local assignment.
+     * @param {any} key - The key descriptor.
+     * @param {string} uid - The UID string.
+     */
+    set: (key: any, uid: string) => {
+      const stamp = self.tick();
+      self.record(self.idOf(key), uid, stamp);
+      self.post({ type: 'set', key: key, uid: uid, stamp: stamp });
+    },
+
+    /**
+     * Publish a local deletion.
+     * @param {any} key - The key descriptor, or `undefined` if the target was collected.
+     * @param {string} uid - The UID string.
+     */
+    delete: (key: any, uid: string) => {
+      const holder = self.holders.get(uid);
+      if (holder !== undefined) self.forget(holder);
+      self.post({ type: 'delete', key: key, uid: uid, stamp: self.tick() });
+    },
+
+    /**
+     * Publish a local reset.
+     */
+    reset: () => {
+      self.floor = self.tick();
+      self.clear();
+      self.post({ type: 'reset', stamp: self.floor });
+    },
+
+    /**
+     * Publish a local replacement of every entry.
+     * @param {[any, string][]} entries - The new `[descriptor, uid]` entries.
+     * @param {string[]} existing - The generator's previously generated UIDs.
+     */
+    replace: (entries: [any, string][], existing: string[]) => {
+      self.floor = self.tick();
+      self.clear();
+      entries.forEach(([key, uid]) =>
+        self.record(self.idOf(key), uid, self.floor)
+      );
+      self.post({
+        type: 'replace',
+        entries: entries,
+        existing: existing,
+        stamp: self.floor,
+      });
+    },
+  };
+
+  Object.freeze(_self);
+
+  return _self;
+};
+
+/**
+ * An in-process channel for tests. Every `connect()` returns a transport, and a
+ * message posted to one transport is delivered synchronously to every other, as a
+ * JSON copy.
+ * @returns
+ */
+export const KDUIDMemoryChannel = () => {
+  const endpoints = new Set<(event: { data: any }) => void>();
+  return {
+    /**
+     * Create a transport connected to the channel.
+     * @returns {KDUIDSyncTransport}
+     */
+    connect: (): KDUIDSyncTransport & { close: () => void } => {
+      const listeners = new Set<(event: { data: any }) => void>();
+      const deliver = (event: { data: any }) =>
+        listeners.forEach((listener) => listener(event));
+      endpoints.add(deliver);
+      return {
+        postMessage: (message) => {
+          const data = JSON.stringify(message);
+          endpoints.forEach((endpoint) => {
+            if (endpoint !== deliver) endpoint({ data: JSON.parse(data) });
+          });
+        },
+        addEventListener: (_, listener) => listeners.add(listener),
+        close: () => endpoints.delete(deliver),
+      };
+    },
+  };
+};
@@ -0,0 +1,23 @@
+/**
+ * @file index.ts
+ * @version 1.0.0
+ * @author Cadence Holmes
+ * @copyright Cadence Holmes 2020
+ * @license MIT
+ * @fileoverview
+ * The package entry. The ESM, CJS and UMD builds and the declaration files are all
+ * emitted from these sources. The React bindings are a separate entry,
+ * `kduidmanager/react`, so `react` is only loaded by those who use them, and the
+ * command-line tool is only built for `bin/kduid.js`.
+ */
+
+export * from './KDUID';
+export * from './KDUIDContent';
+export * from './KDUIDDom';
+export * from './KDUIDEncoding';
+export * from './KDUIDManager';
+export * from './KDUIDRandom';
+export * from './KDUIDRegistry';
+export * from './KDUIDStorage';
+export * from './KDUIDStore';
+export * from './KDUIDSync';